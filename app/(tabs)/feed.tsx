@@ -1,18 +1,24 @@
-import { StyleSheet, View, Text, Pressable, ScrollView, RefreshControl, ActivityIndicator, Animated, Share, Platform } from 'react-native';
+import { StyleSheet, View, Text, Pressable, ScrollView, FlatList, ListRenderItem, RefreshControl, ActivityIndicator, Animated, Share, Platform, AppState } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
-import { useState, useEffect, useRef, useMemo } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useRouter } from 'expo-router';
-import { GestureHandlerRootView, Swipeable } from 'react-native-gesture-handler';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
-import { getRecommendations, invalidateRecommendationCache, RecommendationItem } from '@/services/recommendationService';
-import { saveInteraction, dismissInsight } from '@/services/interactionService';
-import { saveBookmark, removeBookmark } from '@/services/bookmarkService';
+import { getRecommendations, getCachedRecommendations, getTopicCounts, invalidateRecommendationCache, CursorExpiredError, RecommendationItem, RecommendationResponse } from '@/services/recommendationService';
+import { saveInteraction, retractInteraction, dismissInsight, InteractionContext, InteractionReceipt } from '@/services/interactionService';
+import { setReaderQueue, takeLastReadContentId } from '@/services/readerQueue';
+import { MuteRuleKind, addMuteRule, matchesMuteRule } from '@/services/muteRuleService';
+import { normalizeWeightedInterests } from '@/services/interestService';
 import { doc, getDoc } from 'firebase/firestore';
 import { db } from '@/config/firebase';
 import { useAuth } from '@/contexts/AuthContext';
+import { useBookmarks } from '@/contexts/BookmarkContext';
 import InsightCard from '@/components/InsightCard';
+import ArticleCard from '@/components/ArticleCard';
+import RecommendationReasonsSheet from '@/components/RecommendationReasonsSheet';
+import ArticleOptionsSheet from '@/components/ArticleOptionsSheet';
 
 // Helper functions
 const getTimeBasedGreeting = (name: string) => {
@@ -29,58 +35,85 @@ const getTimeBasedGreeting = (name: string) => {
   }
 };
 
-const getReadingTime = (text: string): number => {
-  const wordsPerMinute = 200;
-  const words = text.split(/\s+/).filter(word => word.length > 0).length;
+const formatTimeAgo = (date: Date): string => {
+  const minutes = Math.floor((Date.now() - date.getTime()) / (60 * 1000));
   
-  // If text is very short (like just a title), estimate based on typical article length
-  if (words < 50) {
-    return 3; // Assume 3 min for short excerpts
-  }
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
   
-  return Math.max(1, Math.ceil(words / wordsPerMinute));
+  return `${Math.floor(hours / 24)}d ago`;
 };
 
-const getTagColor = (tag: string): string => {
-  const tagColors: { [key: string]: string } = {
-    'ai': '#60A5FA',
-    'technology': '#60A5FA',
-    'startups': '#34D399',
-    'business': '#34D399',
-    'design': '#A78BFA',
-    'science': '#F472B6',
-    'news': '#FBBF24',
-    'world': '#FBBF24',
-    'policy': '#FB923C',
-    'finance': '#10B981',
-    'health': '#EC4899',
-    'psychology': '#8B5CF6',
-  };
-  
-  return tagColors[tag.toLowerCase()] || '#94B2C7';
+// How often to retry while showing the saved feed
+const REVALIDATE_INTERVAL_MS = 30 * 1000;
+
+const PAGE_SIZE = 20;
+
+// How long the undo snackbar stays up after a dismiss
+const UNDO_WINDOW_MS = 5 * 1000;
+
+// Reader queue the feed hands to /reader for next/previous
+const FEED_QUEUE_ID = 'feed';
+
+// One paginated recommendation stream per chip ('all' or an interest)
+interface FeedStream {
+  items: RecommendationItem[];
+  source: 'gorse' | 'fallback';
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// A dismissed card that can still be restored
+interface PendingDismiss {
+  item: RecommendationItem;
+  // Index of the card in each chip's stream when it was dismissed
+  positions: Record<string, number>;
+  receipt: Promise<InteractionReceipt | null>;
+}
+
+const toFeedStream = (result: RecommendationResponse): FeedStream => ({
+  items: result.items,
+  source: result.source,
+  nextCursor: result.nextCursor || null,
+  hasMore: !!result.hasMore && !!result.nextCursor,
+});
+
+const getTopicForFilter = (filter: string): string | null => {
+  return filter === 'all' ? null : filter.toLowerCase();
 };
 
 export default function FeedScreen() {
   const insets = useSafeAreaInsets();
   const router = useRouter();
   const { user } = useAuth();
-  const [recommendations, setRecommendations] = useState<RecommendationItem[]>([]);
-  const [allRecommendations, setAllRecommendations] = useState<RecommendationItem[]>([]);
+  const { isBookmarked, toggleBookmark } = useBookmarks();
+  const [streams, setStreams] = useState<Record<string, FeedStream>>({});
+  const [topicCounts, setTopicCounts] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
+  const [loadingFilter, setLoadingFilter] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [source, setSource] = useState<'gorse' | 'fallback'>('gorse');
-  const [page, setPage] = useState(1);
-  const [hasMore, setHasMore] = useState(true);
   const [userInterests, setUserInterests] = useState<string[]>([]);
   const [selectedFilter, setSelectedFilter] = useState<string>('all');
   const [userName, setUserName] = useState<string>('there');
   const [greeting, setGreeting] = useState<{ text: string; emoji: string }>({ text: 'For You', emoji: '' });
-  const [bookmarkedItems, setBookmarkedItems] = useState<Set<string>>(new Set());
   const [articlesRead, setArticlesRead] = useState<number>(0);
   const [dismissedInsights, setDismissedInsights] = useState<Set<string>>(new Set());
   const [showInsight, setShowInsight] = useState<string | null>(null);
+  const [cachedAt, setCachedAt] = useState<Date | null>(null);
+  const [pendingDismiss, setPendingDismiss] = useState<PendingDismiss | null>(null);
+  const [explainedItem, setExplainedItem] = useState<RecommendationItem | null>(null);
+  const [optionsItem, setOptionsItem] = useState<RecommendationItem | null>(null);
+  const undoTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const undoAnim = useRef(new Animated.Value(0)).current;
+  const hasFeedRef = useRef(false);
+  const loadingMoreRef = useRef(false);
+  const selectedFilterRef = useRef('all');
+  const listRef = useRef<FlatList<RecommendationItem>>(null);
   const fadeAnim = useRef(new Animated.Value(1)).current;
   const greetingFadeAnim = useRef(new Animated.Value(0)).current;
 
@@ -94,9 +127,9 @@ export default function FeedScreen() {
         if (userDoc.exists()) {
           const data = userDoc.data();
           
-          // Set user interests
+          // Set user interests, strongest first so the chips follow their weight
           if (data.interests) {
-            setUserInterests(data.interests);
+            setUserInterests(normalizeWeightedInterests(data).map(interest => interest.name));
           }
           
           // Set user name (fallback to 'there' if not available)
@@ -176,48 +209,95 @@ export default function FeedScreen() {
     return () => clearInterval(greetingInterval);
   }, [userName]);
 
-  const fetchRecommendations = async (isRefresh = false) => {
+  // Chip badges show how much content exists per interest, not just what's loaded
+  useEffect(() => {
+    if (userInterests.length === 0) return;
+    
+    getTopicCounts(userInterests).then(setTopicCounts);
+  }, [userInterests]);
+
+  const currentStream = streams[selectedFilter];
+  const recommendations = currentStream?.items ?? [];
+  const source = currentStream?.source ?? streams.all?.source ?? 'gorse';
+  const hasMore = currentStream?.hasMore ?? false;
+  const allCount = streams.all?.items.length ?? 0;
+
+  const fetchRecommendations = async (isRefresh = false, silent = false) => {
+    // Refresh the main stream plus the selected chip; other chips reload when selected
+    const filter = selectedFilterRef.current;
+    const filters = filter === 'all' ? ['all'] : ['all', filter];
+    
     try {
       if (isRefresh) {
         setRefreshing(true);
-        setPage(1);
         // Invalidate cache to force fresh recommendations
         await invalidateRecommendationCache();
         console.log('Cache invalidated - fetching fresh recommendations');
-      } else {
+      } else if (!silent) {
         setLoading(true);
       }
       setError(null);
 
-      const result = await getRecommendations(50); // Fetch more for filtering
-      setAllRecommendations(result.items);
-      
-      // Apply filter
-      const filtered = selectedFilter === 'all' 
-        ? result.items 
-        : result.items.filter(item => 
-            item.tags?.some(tag => tag.toLowerCase() === selectedFilter.toLowerCase())
-          );
+      const results = await Promise.all(
+        filters.map(f => getRecommendations(PAGE_SIZE, { topic: getTopicForFilter(f) }))
+      );
       
-      setRecommendations(filtered);
-      setSource(result.source);
-      setHasMore(result.items.length >= 50);
+      const nextStreams: Record<string, FeedStream> = {};
+      filters.forEach((f, index) => {
+        nextStreams[f] = toFeedStream(results[index]);
+      });
+      setStreams(nextStreams);
+      hasFeedRef.current = results[0].items.length > 0;
+      setCachedAt(null);
       
-      console.log(`Loaded ${result.items.length} recommendations from ${result.source}`);
+      console.log(`Loaded ${results[0].items.length} recommendations from ${results[0].source}`);
     } catch (err: any) {
       console.error('Failed to fetch recommendations:', err);
-      setError(err.message || 'Failed to load recommendations');
+      
+      // Fall back to the last saved feed instead of an error screen
+      const cached = await getCachedRecommendations();
+      if (cached) {
+        if (!hasFeedRef.current) {
+          setStreams({ all: toFeedStream(cached.response) });
+          hasFeedRef.current = cached.response.items.length > 0;
+        }
+        setCachedAt(cached.savedAt);
+      } else if (!silent) {
+        setError(err.message || 'Failed to load recommendations');
+      }
     } finally {
       setLoading(false);
       setRefreshing(false);
     }
   };
 
+  const loadStream = async (filter: string) => {
+    const topic = getTopicForFilter(filter);
+    
+    try {
+      setLoadingFilter(true);
+      const result = await getRecommendations(PAGE_SIZE, { topic });
+      setStreams(prev => ({ ...prev, [filter]: toFeedStream(result) }));
+      console.log(`Loaded ${result.items.length} recommendations for ${filter}`);
+    } catch (err: any) {
+      console.error(`Failed to load ${filter} recommendations:`, err);
+      
+      const cached = await getCachedRecommendations(topic);
+      if (cached) {
+        setStreams(prev => ({ ...prev, [filter]: toFeedStream(cached.response) }));
+        setCachedAt(cached.savedAt);
+      }
+    } finally {
+      setLoadingFilter(false);
+    }
+  };
+
   const handleFilterChange = (filter: string) => {
     if (filter === selectedFilter) return;
     
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setSelectedFilter(filter);
+    selectedFilterRef.current = filter;
     
     // Smooth fade animation
     Animated.sequence([
@@ -233,49 +313,81 @@ export default function FeedScreen() {
       }),
     ]).start();
     
-    // Filter recommendations
-    const filtered = filter === 'all'
-      ? allRecommendations
-      : allRecommendations.filter(item =>
-          item.tags?.some(tag => tag.toLowerCase() === filter.toLowerCase())
-        );
-    
-    setRecommendations(filtered);
-    console.log(`Filtered to ${filter}: ${filtered.length} articles`);
+    // Each chip has its own stream; load it the first time it's selected
+    if (!streams[filter]) {
+      loadStream(filter);
+    }
   };
 
   const loadMoreRecommendations = async () => {
-    if (loadingMore || !hasMore) return;
+    const filter = selectedFilter;
+    const stream = streams[filter];
+    // onEndReached can fire repeatedly before state catches up
+    if (loadingMoreRef.current || !stream?.hasMore || !stream.nextCursor) return;
 
     try {
+      loadingMoreRef.current = true;
       setLoadingMore(true);
-      const nextPage = page + 1;
-      
-      // Request more items (20 per page)
-      const result = await getRecommendations(20 * nextPage);
       
-      // Only add new items that aren't already in the list
-      const existingIds = new Set(recommendations.map(r => r.contentId));
-      const newItems = result.items.filter(item => !existingIds.has(item.contentId));
-      
-      if (newItems.length > 0) {
-        setRecommendations(prev => [...prev, ...newItems]);
-        setPage(nextPage);
-        setHasMore(newItems.length >= 20);
-        console.log(`Loaded ${newItems.length} more recommendations`);
-      } else {
-        setHasMore(false);
-        console.log('No more recommendations available');
+      // Fetch only the next page after the current cursor
+      let result: RecommendationResponse;
+      try {
+        result = await getRecommendations(PAGE_SIZE, { cursor: stream.nextCursor });
+      } catch (err) {
+        if (!(err instanceof CursorExpiredError)) throw err;
+        
+        // The server dropped the ranking behind the cursor. Stop paging with
+        // it (the footer then offers pull to refresh if the retry fails too),
+        // start the stream over and append whatever isn't on screen yet.
+        console.log(`Cursor for ${filter} expired, reloading from the first page`);
+        setStreams(prev => prev[filter]
+          ? { ...prev, [filter]: { ...prev[filter], nextCursor: null, hasMore: false } }
+          : prev);
+        result = await getRecommendations(PAGE_SIZE, { topic: getTopicForFilter(filter) });
       }
+      
+      setStreams(prev => {
+        const current = prev[filter];
+        if (!current) return prev;
+        
+        // Guard against repeats if the server had to re-rank
+        const existingIds = new Set(current.items.map(r => r.contentId));
+        const newItems = result.items.filter(item => !existingIds.has(item.contentId));
+        
+        return {
+          ...prev,
+          [filter]: {
+            ...current,
+            items: [...current.items, ...newItems],
+            nextCursor: result.nextCursor || null,
+            hasMore: !!result.hasMore && !!result.nextCursor,
+          },
+        };
+      });
+      console.log(`Loaded ${result.items.length} more recommendations`);
     } catch (err: any) {
       console.error('Failed to load more recommendations:', err);
     } finally {
+      loadingMoreRef.current = false;
       setLoadingMore(false);
     }
   };
 
   useEffect(() => {
-    fetchRecommendations();
+    const loadFeed = async () => {
+      // Render the saved feed immediately, then revalidate in the background
+      const cached = await getCachedRecommendations();
+      if (cached) {
+        setStreams({ all: toFeedStream(cached.response) });
+        hasFeedRef.current = cached.response.items.length > 0;
+        setCachedAt(cached.savedAt);
+        setLoading(false);
+      }
+      
+      fetchRecommendations(false, !!cached);
+    };
+    
+    loadFeed();
     
     // Auto-refresh every 5 minutes
     const autoRefreshInterval = setInterval(() => {
@@ -286,34 +398,197 @@ export default function FeedScreen() {
     return () => clearInterval(autoRefreshInterval);
   }, []);
 
+  // While showing the saved feed, quietly retry until the network returns
+  useEffect(() => {
+    if (!cachedAt) return;
+    
+    const revalidateInterval = setInterval(() => {
+      fetchRecommendations(false, true);
+    }, REVALIDATE_INTERVAL_MS);
+    
+    const appStateSubscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        fetchRecommendations(false, true);
+      }
+    });
+    
+    return () => {
+      clearInterval(revalidateInterval);
+      appStateSubscription.remove();
+    };
+  }, [cachedAt]);
+
+  // Where a card sits in the feed, recorded with anything done to it
+  const getFeedContext = (item: RecommendationItem, position: number): InteractionContext => ({
+    surface: 'feed',
+    position,
+    filter: selectedFilter,
+    recommendationSource: source,
+    score: item.score,
+  });
+
   const handleArticlePress = (item: RecommendationItem) => {
     if (item.url) {
+      // The reader can move through the feed in this order without coming back
+      setReaderQueue(FEED_QUEUE_ID, recommendations.map((recommendation, position) => ({
+        contentId: recommendation.contentId,
+        url: recommendation.url || '',
+        title: recommendation.title,
+        context: getFeedContext(recommendation, position),
+      })));
+
       router.push({
         pathname: '/reader',
         params: {
           url: item.url,
           title: item.title,
           contentId: item.contentId,
+          queue: FEED_QUEUE_ID,
         },
       });
     }
   };
 
+  // Coming back from the reader, bring the last article read into view
+  useFocusEffect(
+    useCallback(() => {
+      const lastReadId = takeLastReadContentId(FEED_QUEUE_ID);
+      if (!lastReadId) return;
+
+      const index = (currentStream?.items ?? []).findIndex((item) => item.contentId === lastReadId);
+      if (index !== -1) {
+        listRef.current?.scrollToIndex({ index, viewPosition: 0.3, animated: false });
+      }
+    }, [currentStream])
+  );
+
+  // Cards vary in height, so jump near the target first and retry once it's rendered
+  const handleScrollToIndexFailed = useCallback((info: { index: number; averageItemLength: number }) => {
+    listRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+    setTimeout(() => {
+      listRef.current?.scrollToIndex({ index: info.index, viewPosition: 0.3, animated: false });
+    }, 100);
+  }, []);
+
   const onRefresh = () => {
     fetchRecommendations(true);
   };
 
+  // Clear the undo timer when leaving the screen
+  useEffect(() => {
+    return () => {
+      if (undoTimerRef.current) {
+        clearTimeout(undoTimerRef.current);
+      }
+    };
+  }, []);
+
+  const hideUndoSnackbar = () => {
+    if (undoTimerRef.current) {
+      clearTimeout(undoTimerRef.current);
+      undoTimerRef.current = null;
+    }
+    
+    Animated.timing(undoAnim, {
+      toValue: 0,
+      duration: 200,
+      useNativeDriver: true,
+    }).start(({ finished }) => {
+      // Skip if a newer dismiss re-showed the snackbar mid-animation
+      if (finished) {
+        setPendingDismiss(null);
+      }
+    });
+  };
+
+  const showUndoSnackbar = (pending: PendingDismiss) => {
+    if (undoTimerRef.current) {
+      clearTimeout(undoTimerRef.current);
+    }
+    
+    setPendingDismiss(pending);
+    Animated.timing(undoAnim, {
+      toValue: 1,
+      duration: 200,
+      useNativeDriver: true,
+    }).start();
+    
+    undoTimerRef.current = setTimeout(hideUndoSnackbar, UNDO_WINDOW_MS);
+  };
+
   const handleDismiss = async (item: RecommendationItem) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    const context = getFeedContext(
+      item,
+      recommendations.findIndex(rec => rec.contentId === item.contentId)
+    );
+    
+    // Remember where the card was so undo can put it back
+    const positions: Record<string, number> = {};
+    Object.entries(streams).forEach(([filter, stream]) => {
+      const index = stream.items.findIndex(rec => rec.contentId === item.contentId);
+      if (index !== -1) {
+        positions[filter] = index;
+      }
+    });
+    
+    // Remove from every chip's stream
+    setStreams(prev => {
+      const next: Record<string, FeedStream> = {};
+      Object.entries(prev).forEach(([filter, stream]) => {
+        next[filter] = {
+          ...stream,
+          items: stream.items.filter(rec => rec.contentId !== item.contentId),
+        };
+      });
+      return next;
+    });
+    
+    // Save interaction and sync to Gorse
+    const receipt = saveInteraction(item.contentId, 'dismiss', context).catch((error) => {
+      console.error('Error dismissing article:', error);
+      return null;
+    });
+    
+    showUndoSnackbar({ item, positions, receipt });
+  };
+
+  const handleUndoDismiss = async () => {
+    if (!pendingDismiss) return;
+    
+    const { item, positions, receipt } = pendingDismiss;
+    hideUndoSnackbar();
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    
+    // Restore the card to its original position in each stream
+    setStreams(prev => {
+      const next: Record<string, FeedStream> = {};
+      Object.entries(prev).forEach(([filter, stream]) => {
+        const position = positions[filter];
+        const alreadyPresent = stream.items.some(rec => rec.contentId === item.contentId);
+        
+        next[filter] = position === undefined || alreadyPresent
+          ? stream
+          : {
+              ...stream,
+              items: [
+                ...stream.items.slice(0, position),
+                item,
+                ...stream.items.slice(position),
+              ],
+            };
+      });
+      return next;
+    });
+    
     try {
-      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-      
-      // Save interaction and sync to Gorse
-      await saveInteraction(item.contentId, 'dismiss');
-      
-      // Remove from list
-      setRecommendations(prev => prev.filter(rec => rec.contentId !== item.contentId));
+      const savedReceipt = await receipt;
+      if (savedReceipt) {
+        await retractInteraction(savedReceipt);
+      }
     } catch (error) {
-      console.error('Error dismissing article:', error);
+      console.error('Error undoing dismiss:', error);
     }
   };
 
@@ -323,28 +598,8 @@ export default function FeedScreen() {
     try {
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       
-      const isCurrentlyBookmarked = bookmarkedItems.has(item.contentId);
-      
-      if (isCurrentlyBookmarked) {
-        // Remove bookmark
-        await removeBookmark(user.uid, item.contentId);
-        setBookmarkedItems(prev => {
-          const newSet = new Set(prev);
-          newSet.delete(item.contentId);
-          return newSet;
-        });
-      } else {
-        // Add bookmark
-        await saveBookmark(
-          user.uid,
-          item.contentId,
-          item.title,
-          item.url || '',
-          item.excerpt,
-          item.tags
-        );
-        setBookmarkedItems(prev => new Set(prev).add(item.contentId));
-      }
+      // Optimistic toggle; the store rolls back if the write fails
+      await toggleBookmark(item);
     } catch (error) {
       console.error('Error toggling bookmark:', error);
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
@@ -388,15 +643,89 @@ export default function FeedScreen() {
     }
   };
 
-  const renderRightActions = (item: RecommendationItem) => {
-    return (
-      <View style={styles.swipeAction}>
-        <Ionicons name="close-circle" size={32} color="#FFFFFF" />
-        <Text style={styles.swipeActionText}>Not Interested</Text>
-      </View>
-    );
+  const handleExplain = (item: RecommendationItem) => {
+    Haptics.selectionAsync();
+    setExplainedItem(item);
+  };
+
+  const handleMore = (item: RecommendationItem) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setOptionsItem(item);
   };
 
+  const handleMute = async (kind: MuteRuleKind, value: string) => {
+    setOptionsItem(null);
+
+    try {
+      await addMuteRule(kind, value);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+
+      // Take matching articles out of what's loaded (except from the muted
+      // topic's own chip); the next load is ranked with the rule
+      const rule = { kind, value: value.toLowerCase() };
+      setStreams(prev => {
+        const next: Record<string, FeedStream> = {};
+        Object.entries(prev).forEach(([filter, stream]) => {
+          next[filter] = kind === 'tag' && filter.toLowerCase() === rule.value
+            ? stream
+            : { ...stream, items: stream.items.filter(rec => !matchesMuteRule(rec, [rule])) };
+        });
+        return next;
+      });
+      invalidateRecommendationCache();
+    } catch (error) {
+      console.error('Error muting:', error);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  // Cards are memoized, so hand them stable callbacks that always call the latest handlers
+  const cardHandlersRef = useRef({ handleArticlePress, handleBookmark, handleShare, handleDismiss, handleExplain, handleMore });
+  cardHandlersRef.current = { handleArticlePress, handleBookmark, handleShare, handleDismiss, handleExplain, handleMore };
+
+  const onCardPress = useCallback((item: RecommendationItem) => {
+    cardHandlersRef.current.handleArticlePress(item);
+  }, []);
+  const onCardBookmark = useCallback((item: RecommendationItem) => {
+    cardHandlersRef.current.handleBookmark(item);
+  }, []);
+  const onCardShare = useCallback((item: RecommendationItem) => {
+    cardHandlersRef.current.handleShare(item);
+  }, []);
+  const onCardDismiss = useCallback((item: RecommendationItem) => {
+    cardHandlersRef.current.handleDismiss(item);
+  }, []);
+  const onCardExplain = useCallback((item: RecommendationItem) => {
+    cardHandlersRef.current.handleExplain(item);
+  }, []);
+  const onCardMore = useCallback((item: RecommendationItem) => {
+    cardHandlersRef.current.handleMore(item);
+  }, []);
+
+  const renderArticle: ListRenderItem<RecommendationItem> = useCallback(({ item }) => (
+    <Animated.View style={[styles.articleRow, { opacity: fadeAnim }]}>
+      <ArticleCard
+        item={item}
+        bookmarked={isBookmarked(item.contentId)}
+        onPress={onCardPress}
+        onBookmark={onCardBookmark}
+        onShare={onCardShare}
+        onDismiss={onCardDismiss}
+        onExplain={onCardExplain}
+        onMore={onCardMore}
+      />
+    </Animated.View>
+  ), [isBookmarked, fadeAnim, onCardPress, onCardBookmark, onCardShare, onCardDismiss, onCardExplain, onCardMore]);
+
+  const keyExtractor = useCallback((item: RecommendationItem) => item.contentId, []);
+
+  // Chip labels and badges only change when interests or counts do
+  const interestChips = useMemo(() => userInterests.map(interest => ({
+    interest,
+    label: interest.charAt(0).toUpperCase() + interest.slice(1),
+    count: topicCounts[interest.toLowerCase()] ?? 0,
+  })), [userInterests, topicCounts]);
+
   if (loading) {
     return (
       <View style={[styles.container, styles.centerContent]}>
@@ -419,7 +748,7 @@ export default function FeedScreen() {
     );
   }
 
-  if (recommendations.length === 0) {
+  if (selectedFilter === 'all' && recommendations.length === 0) {
     return (
       <View style={[styles.container, styles.centerContent]}>
         <StatusBar style="light" />
@@ -435,7 +764,11 @@ export default function FeedScreen() {
     <GestureHandlerRootView style={styles.container}>
       <StatusBar style="light" />
       
-      <ScrollView 
+      <FlatList
+        ref={listRef}
+        data={recommendations}
+        renderItem={renderArticle}
+        keyExtractor={keyExtractor}
         style={styles.scrollView}
         contentContainerStyle={[
           styles.scrollContent,
@@ -449,256 +782,220 @@ export default function FeedScreen() {
             tintColor="#FFFFFF"
           />
         }
-      >
-        {/* Header */}
-        <Animated.View style={[styles.headerContainer, { opacity: greetingFadeAnim }]}>
-          <View style={styles.greetingWrapper}>
-            <Text style={styles.greetingEmoji}>{greeting.emoji}</Text>
-            <Text style={styles.greetingText}>{greeting.text}</Text>
-          </View>
-          <View style={styles.subtitleRow}>
-            <View style={[styles.statusDot, source === 'gorse' ? styles.statusDotActive : styles.statusDotFallback]} />
-            <Text style={styles.subtitle}>
-              {source === 'gorse' ? 'Personalized' : 'Discovering your interests'}
-            </Text>
-            <Text style={styles.subtitleDivider}>•</Text>
-            <Text style={styles.subtitle}>
-              {allRecommendations.length} new
-            </Text>
-          </View>
-        </Animated.View>
-
-        {/* Interest Filters */}
-        {userInterests.length > 0 && (
-          <View style={styles.filtersContainer}>
-            <ScrollView 
-              horizontal 
-              showsHorizontalScrollIndicator={false}
-              contentContainerStyle={styles.filtersScrollContent}
-            >
-              <Pressable
-                style={[
-                  styles.filterChip,
-                  selectedFilter === 'all' && styles.filterChipActive,
-                ]}
-                onPress={() => handleFilterChange('all')}
-              >
-                <Text style={[
-                  styles.filterChipText,
-                  selectedFilter === 'all' && styles.filterChipTextActive,
-                ]}>
-                  All
+        onEndReached={loadMoreRecommendations}
+        onEndReachedThreshold={0.5}
+        onScrollToIndexFailed={handleScrollToIndexFailed}
+        initialNumToRender={6}
+        maxToRenderPerBatch={8}
+        windowSize={7}
+        ListHeaderComponent={
+          <>
+            {/* Header */}
+            <Animated.View style={[styles.headerContainer, { opacity: greetingFadeAnim }]}>
+              <View style={styles.greetingWrapper}>
+                <Text style={styles.greetingEmoji}>{greeting.emoji}</Text>
+                <Text style={styles.greetingText}>{greeting.text}</Text>
+              </View>
+              <View style={styles.subtitleRow}>
+                <View style={[styles.statusDot, source === 'gorse' ? styles.statusDotActive : styles.statusDotFallback]} />
+                <Text style={styles.subtitle}>
+                  {source === 'gorse' ? 'Personalized' : 'Discovering your interests'}
                 </Text>
-                {selectedFilter === 'all' && (
-                  <View style={styles.filterChipBadge}>
-                    <Text style={styles.filterChipBadgeText}>{allRecommendations.length}</Text>
-                  </View>
-                )}
-              </Pressable>
-              
-              {userInterests.map((interest, index) => {
-                const count = allRecommendations.filter(item =>
-                  item.tags?.some(tag => tag.toLowerCase() === interest.toLowerCase())
-                ).length;
-                
-                return (
+                <Text style={styles.subtitleDivider}>•</Text>
+                <Text style={styles.subtitle}>
+                  {allCount} new
+                </Text>
+              </View>
+              {cachedAt && (
+                <View style={styles.offlineBanner}>
+                  <Ionicons name="cloud-offline-outline" size={14} color="#FBBF24" />
+                  <Text style={styles.offlineBannerText}>
+                    Showing saved feed from {formatTimeAgo(cachedAt)}
+                  </Text>
+                </View>
+              )}
+            </Animated.View>
+
+            {/* Interest Filters */}
+            {userInterests.length > 0 && (
+              <View style={styles.filtersContainer}>
+                <ScrollView 
+                  horizontal 
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.filtersScrollContent}
+                >
                   <Pressable
-                    key={index}
                     style={[
                       styles.filterChip,
-                      selectedFilter === interest && styles.filterChipActive,
+                      selectedFilter === 'all' && styles.filterChipActive,
                     ]}
-                    onPress={() => handleFilterChange(interest)}
+                    onPress={() => handleFilterChange('all')}
                   >
                     <Text style={[
                       styles.filterChipText,
-                      selectedFilter === interest && styles.filterChipTextActive,
+                      selectedFilter === 'all' && styles.filterChipTextActive,
                     ]}>
-                      {interest.charAt(0).toUpperCase() + interest.slice(1)}
+                      All
                     </Text>
-                    {count > 0 && (
-                      <View style={[
-                        styles.filterChipBadge,
-                        selectedFilter === interest && styles.filterChipBadgeActive,
-                      ]}>
-                        <Text style={[
-                          styles.filterChipBadgeText,
-                          selectedFilter === interest && styles.filterChipBadgeTextActive,
-                        ]}>{count}</Text>
+                    {selectedFilter === 'all' && (
+                      <View style={styles.filterChipBadge}>
+                        <Text style={styles.filterChipBadgeText}>{allCount}</Text>
                       </View>
                     )}
                   </Pressable>
-                );
-              })}
-            </ScrollView>
-          </View>
-        )}
-
-        {/* Articles List */}
-        <Animated.View style={[styles.articlesContainer, { opacity: fadeAnim }]}>
-          {/* Insight Cards */}
-          {showInsight === 'add-interests' && (
-            <InsightCard
-              icon="bulb-outline"
-              title="Get Better Recommendations"
-              message="Add more interests to your profile to discover content tailored just for you"
-              actionLabel="Add Interests"
-              onAction={() => handleInsightAction('add-interests')}
-              onDismiss={() => handleDismissInsight('add-interests')}
-            />
-          )}
-          
-          {showInsight === 'how-it-works' && (
-            <InsightCard
-              icon="sparkles-outline"
-              title="Your Feed Learns"
-              message="The more you read and interact with articles, the better your recommendations become"
-              onDismiss={() => handleDismissInsight('how-it-works')}
-            />
-          )}
-          
-          {recommendations.map((item, index) => (
-            <Swipeable
-              key={`${item.contentId}-${index}`}
-              renderRightActions={() => renderRightActions(item)}
-              onSwipeableOpen={() => handleDismiss(item)}
-              overshootRight={false}
-              rightThreshold={40}
-            >
-              <Pressable
-                style={({ pressed }) => [
-                  styles.articleCard,
-                  pressed && styles.articleCardPressed,
-                ]}
-                onPress={() => handleArticlePress(item)}
-              >
-              <View style={styles.articleContent}>
-                <View style={styles.articleTextContainer}>
-                  <View style={styles.articleHeader}>
-                    {item.tags && item.tags.length > 0 && (
-                      <View style={styles.tagsContainer}>
-                      {item.tags.slice(0, 3).map((tag, idx) => {
-                        const tagColor = getTagColor(tag);
-                        return (
-                          <View 
-                            key={idx} 
-                            style={[
-                              styles.tagChip,
-                              { backgroundColor: `${tagColor}33` } // 20% opacity
-                            ]}
-                          >
-                            <Text style={[styles.tagText, { color: tagColor }]}>
-                              {tag}
-                            </Text>
-                          </View>
-                        );
-                      })}
-                      </View>
-                    )}
-                    <View style={styles.interactionIcons}>
-                      <Pressable 
-                        onPress={(e) => {
-                          e.stopPropagation();
-                          handleBookmark(item);
-                        }}
-                        hitSlop={8}
-                        accessibilityLabel={bookmarkedItems.has(item.contentId) ? "Remove bookmark" : "Bookmark article"}
-                        accessibilityRole="button"
-                      >
-                        <Ionicons 
-                          name={bookmarkedItems.has(item.contentId) ? "bookmark" : "bookmark-outline"} 
-                          size={20} 
-                          color={bookmarkedItems.has(item.contentId) ? "#4A9EFF" : "#94B2C7"} 
-                        />
-                      </Pressable>
-                      <Pressable 
-                        onPress={(e) => {
-                          e.stopPropagation();
-                          handleShare(item);
-                        }}
-                        hitSlop={8}
-                        accessibilityLabel="Share article"
-                        accessibilityRole="button"
+              
+                  {interestChips.map(({ interest, label, count }) => {
+                    return (
+                      <Pressable
+                        key={interest}
+                        style={[
+                          styles.filterChip,
+                          selectedFilter === interest && styles.filterChipActive,
+                        ]}
+                        onPress={() => handleFilterChange(interest)}
                       >
-                        <Ionicons name="share-outline" size={20} color="#94B2C7" />
-                      </Pressable>
-                    </View>
-                  </View>
-                  <View style={styles.articleTitleContainer}>
-                    <Text style={styles.articleTitle} numberOfLines={3}>
-                      {item.title}
-                    </Text>
-                  </View>
-                  {item.excerpt && (
-                    <View style={styles.articleDescriptionContainer}>
-                      <Text style={styles.articleDescription} numberOfLines={3}>
-                        {item.excerpt}
-                      </Text>
-                    </View>
-                  )}
-                  <View style={styles.metaContainer}>
-                    <View style={styles.metaRow}>
-                      <View style={styles.readTimeContainer}>
-                        <Ionicons name="time-outline" size={14} color="#94B2C7" />
-                        <Text style={styles.readTimeText}>
-                          {getReadingTime(item.excerpt || item.title)} min read
-                        </Text>
-                      </View>
-                      <View style={styles.scoreContainer}>
-                        <View style={styles.scoreBar}>
-                          <View style={[styles.scoreBarFill, { width: `${Math.min(Math.round(item.score * 100), 100)}%` }]} />
-                        </View>
-                        <Text style={styles.scoreText}>
-                          {Math.min(Math.round(item.score * 100), 100)}% match
+                        <Text style={[
+                          styles.filterChipText,
+                          selectedFilter === interest && styles.filterChipTextActive,
+                        ]}>
+                          {label}
                         </Text>
-                      </View>
-                    </View>
-                  </View>
-                </View>
+                        {count > 0 && (
+                          <View style={[
+                            styles.filterChipBadge,
+                            selectedFilter === interest && styles.filterChipBadgeActive,
+                          ]}>
+                            <Text style={[
+                              styles.filterChipBadgeText,
+                              selectedFilter === interest && styles.filterChipBadgeTextActive,
+                            ]}>{count}</Text>
+                          </View>
+                        )}
+                      </Pressable>
+                    );
+                  })}
+                </ScrollView>
               </View>
-              </Pressable>
-            </Swipeable>
-          ))}
-          
-          {/* Load More Button */}
-          {hasMore && !loading && (
-            <View style={styles.loadMoreContainer}>
-              <Pressable
-                style={({ pressed }) => [
-                  styles.loadMoreButton,
-                  pressed && styles.loadMoreButtonPressed,
-                  loadingMore && styles.loadMoreButtonDisabled,
-                ]}
-                onPress={loadMoreRecommendations}
-                disabled={loadingMore}
-              >
-                {loadingMore ? (
-                  <ActivityIndicator size="small" color="#FFFFFF" />
-                ) : (
-                  <>
-                    <Ionicons name="arrow-down-circle-outline" size={20} color="#FFFFFF" />
-                    <Text style={styles.loadMoreText}>Load More Articles</Text>
-                  </>
-                )}
-              </Pressable>
-              <Text style={styles.loadMoreHint}>
-                {recommendations.length} articles loaded • Tap to see more
-              </Text>
-            </View>
-          )}
-          
-          {/* End of Feed Message */}
-          {!hasMore && recommendations.length > 0 && (
-            <View style={styles.endOfFeedContainer}>
-              <Ionicons name="checkmark-circle" size={32} color="#4ADE80" />
-              <Text style={styles.endOfFeedText}>You're all caught up!</Text>
-              <Text style={styles.endOfFeedSubtext}>
-                Pull down to refresh for new articles
-              </Text>
+            )}
+
+            {/* Insight Cards */}
+            <View style={styles.insightsContainer}>
+              {showInsight === 'add-interests' && (
+                <InsightCard
+                  icon="bulb-outline"
+                  title="Get Better Recommendations"
+                  message="Add more interests to your profile to discover content tailored just for you"
+                  actionLabel="Add Interests"
+                  onAction={() => handleInsightAction('add-interests')}
+                  onDismiss={() => handleDismissInsight('add-interests')}
+                />
+              )}
+              
+              {showInsight === 'how-it-works' && (
+                <InsightCard
+                  icon="sparkles-outline"
+                  title="Your Feed Learns"
+                  message="The more you read and interact with articles, the better your recommendations become"
+                  onDismiss={() => handleDismissInsight('how-it-works')}
+                />
+              )}
             </View>
-          )}
+          </>
+        }
+        ListEmptyComponent={
+          <>
+            {/* Chip stream loading / empty states */}
+            {loadingFilter && !currentStream && (
+              <View style={styles.filterStateContainer}>
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              </View>
+            )}
+            
+            {currentStream && (
+              <View style={styles.filterStateContainer}>
+                <Text style={styles.emptySubtext}>
+                  No articles about {selectedFilter} right now
+                </Text>
+              </View>
+            )}
+          </>
+        }
+        ListFooterComponent={
+          <>
+            {/* Next page loading */}
+            {loadingMore && (
+              <View style={styles.loadMoreContainer}>
+                <ActivityIndicator size="small" color="#FFFFFF" />
+                <Text style={styles.loadMoreHint}>
+                  {recommendations.length} articles loaded • Loading more
+                </Text>
+              </View>
+            )}
+            
+            {/* End of Feed Message */}
+            {!hasMore && recommendations.length > 0 && (
+              <View style={styles.endOfFeedContainer}>
+                <Ionicons name="checkmark-circle" size={32} color="#4ADE80" />
+                <Text style={styles.endOfFeedText}>You're all caught up!</Text>
+                <Text style={styles.endOfFeedSubtext}>
+                  Pull down to refresh for new articles
+                </Text>
+              </View>
+            )}
+          </>
+        }
+      />
+      
+      {/* Undo Dismiss Snackbar */}
+      {pendingDismiss && (
+        <Animated.View
+          style={[
+            styles.undoSnackbar,
+            {
+              opacity: undoAnim,
+              transform: [{
+                translateY: undoAnim.interpolate({
+                  inputRange: [0, 1],
+                  outputRange: [20, 0],
+                }),
+              }],
+            },
+          ]}
+        >
+          <Text style={styles.undoSnackbarText} numberOfLines={1}>
+            Article dismissed
+          </Text>
+          <Pressable
+            onPress={handleUndoDismiss}
+            hitSlop={8}
+            accessibilityLabel="Undo dismiss"
+            accessibilityRole="button"
+          >
+            <Text style={styles.undoSnackbarAction}>UNDO</Text>
+          </Pressable>
         </Animated.View>
-      </ScrollView>
+      )}
+
+      <ArticleOptionsSheet
+        item={optionsItem}
+        onExplain={(item) => {
+          // iOS can't present a modal while another is still sliding away
+          setOptionsItem(null);
+          setTimeout(() => handleExplain(item), 350);
+        }}
+        onMute={handleMute}
+        onDismiss={(item) => {
+          setOptionsItem(null);
+          handleDismiss(item);
+        }}
+        onClose={() => setOptionsItem(null)}
+      />
+
+      <RecommendationReasonsSheet
+        item={explainedItem}
+        source={source}
+        onClose={() => setExplainedItem(null)}
+      />
     </GestureHandlerRootView>
   );
 }
@@ -774,6 +1071,22 @@ const styles = StyleSheet.create({
     lineHeight: 18,
     color: '#94B2C7',
   },
+  offlineBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+    backgroundColor: 'rgba(251, 191, 36, 0.12)',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  offlineBannerText: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 12,
+    color: '#FBBF24',
+  },
   filtersContainer: {
     paddingVertical: 12,
   },
@@ -825,126 +1138,12 @@ const styles = StyleSheet.create({
   filterChipBadgeTextActive: {
     color: '#FFFFFF',
   },
-  articlesContainer: {
+  insightsContainer: {
     paddingHorizontal: 16,
     paddingTop: 12,
   },
-  articleCard: {
-    marginBottom: 16,
-    backgroundColor: 'rgba(26, 39, 48, 0.7)',
-    borderRadius: 16,
-    padding: 16,
-    borderWidth: 1,
-    borderColor: 'rgba(148, 178, 199, 0.15)',
-    shadowColor: '#000',
-    shadowOffset: { width: 0, height: 8 },
-    shadowOpacity: 0.25,
-    shadowRadius: 16,
-    elevation: 8,
-  },
-  articleCardPressed: {
-    backgroundColor: 'rgba(36, 56, 71, 0.8)',
-    transform: [{ scale: 0.98 }],
-  },
-  articleContent: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-  },
-  articleTextContainer: {
-    flex: 1,
-    gap: 8,
-  },
-  articleHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'flex-start',
-    gap: 12,
-  },
-  tagsContainer: {
-    flexDirection: 'row',
-    gap: 8,
-    flexWrap: 'wrap',
-    flex: 1,
-  },
-  interactionIcons: {
-    flexDirection: 'row',
-    gap: 16,
-    alignItems: 'center',
-  },
-  tagChip: {
-    borderRadius: 8,
-    paddingHorizontal: 10,
-    paddingVertical: 4,
-  },
-  tagText: {
-    fontFamily: 'System',
-    fontWeight: '600',
-    fontSize: 12,
-  },
-  articleTitleContainer: {
-    alignSelf: 'stretch',
-  },
-  articleTitle: {
-    fontFamily: 'System',
-    fontWeight: '700',
-    fontSize: 16,
-    lineHeight: 20,
-    color: '#FFFFFF',
-  },
-  articleDescriptionContainer: {
-    alignSelf: 'stretch',
-  },
-  articleDescription: {
-    fontFamily: 'System',
-    fontWeight: '400',
-    fontSize: 14,
-    lineHeight: 21,
-    color: '#94B2C7',
-  },
-  metaContainer: {
-    marginTop: 12,
-  },
-  metaRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    justifyContent: 'space-between',
-    gap: 12,
-  },
-  readTimeContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 4,
-  },
-  readTimeText: {
-    fontFamily: 'System',
-    fontWeight: '500',
-    fontSize: 12,
-    color: '#94B2C7',
-  },
-  scoreContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: 8,
-    flex: 1,
-  },
-  scoreBar: {
-    flex: 1,
-    height: 4,
-    backgroundColor: '#243847',
-    borderRadius: 2,
-    overflow: 'hidden',
-  },
-  scoreBarFill: {
-    height: '100%',
-    backgroundColor: '#4A9EFF',
-    borderRadius: 2,
-  },
-  scoreText: {
-    fontFamily: 'System',
-    fontWeight: '500',
-    fontSize: 11,
-    color: '#94B2C7',
-    minWidth: 60,
+  articleRow: {
+    paddingHorizontal: 16,
   },
   loadingText: {
     fontFamily: 'System',
@@ -989,54 +1188,49 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: 32,
   },
-  swipeAction: {
-    backgroundColor: '#FF6B6B',
-    justifyContent: 'center',
-    alignItems: 'center',
-    width: 120,
-    marginBottom: 16,
-    borderTopRightRadius: 12,
-    borderBottomRightRadius: 12,
-    paddingHorizontal: 20,
-  },
-  swipeActionText: {
-    fontFamily: 'System',
-    fontWeight: '600',
-    fontSize: 12,
-    color: '#FFFFFF',
-    marginTop: 4,
-    textAlign: 'center',
-  },
-  loadMoreContainer: {
-    paddingVertical: 24,
-    paddingHorizontal: 16,
+  filterStateContainer: {
+    paddingVertical: 32,
     alignItems: 'center',
   },
-  loadMoreButton: {
+  undoSnackbar: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 16,
     flexDirection: 'row',
     alignItems: 'center',
-    justifyContent: 'center',
-    backgroundColor: '#4A9EFF',
+    justifyContent: 'space-between',
+    backgroundColor: 'rgba(26, 39, 48, 0.95)',
     borderRadius: 12,
-    paddingHorizontal: 24,
+    paddingHorizontal: 16,
     paddingVertical: 14,
-    gap: 8,
-    minWidth: 200,
-  },
-  loadMoreButtonPressed: {
-    backgroundColor: '#3A7FDF',
-    transform: [{ scale: 0.98 }],
-  },
-  loadMoreButtonDisabled: {
-    backgroundColor: '#3A7FDF',
-    opacity: 0.7,
+    borderWidth: 1,
+    borderColor: '#243847',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
   },
-  loadMoreText: {
+  undoSnackbarText: {
+    flex: 1,
     fontFamily: 'System',
-    fontWeight: '600',
-    fontSize: 16,
+    fontWeight: '500',
+    fontSize: 14,
     color: '#FFFFFF',
   },
+  undoSnackbarAction: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 14,
+    color: '#4A9EFF',
+    letterSpacing: 0.5,
+  },
+  loadMoreContainer: {
+    paddingVertical: 24,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
   loadMoreHint: {
     fontFamily: 'System',
     fontWeight: '400',
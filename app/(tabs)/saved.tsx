@@ -0,0 +1,654 @@
+import { StyleSheet, View, Text, Pressable, ScrollView, ActivityIndicator } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useState, useMemo, useEffect, useCallback } from 'react';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter, useFocusEffect } from 'expo-router';
+import { GestureHandlerRootView, Swipeable } from 'react-native-gesture-handler';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { Bookmark } from '@/services/bookmarkService';
+import {
+  OfflineStorageUsage,
+  DownloadProgress,
+  downloadArticles,
+  getOfflineStorageUsage,
+  getOfflineArticleIds,
+} from '@/services/offlineArticleService';
+import { useBookmarks } from '@/contexts/BookmarkContext';
+
+type SortOrder = 'newest' | 'oldest' | 'title';
+
+const SORT_OPTIONS: { value: SortOrder; label: string }[] = [
+  { value: 'newest', label: 'Newest' },
+  { value: 'oldest', label: 'Oldest' },
+  { value: 'title', label: 'Title' },
+];
+
+const formatSavedDate = (date: Date): string => {
+  return date.toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() === new Date().getFullYear() ? undefined : 'numeric',
+  });
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function SavedScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { bookmarks, loading, removeBookmark } = useBookmarks();
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [selectedTag, setSelectedTag] = useState<string>('all');
+  const [storageUsage, setStorageUsage] = useState<OfflineStorageUsage | null>(null);
+  const [offlineIds, setOfflineIds] = useState<Set<string>>(new Set());
+  const [downloadProgress, setDownloadProgress] = useState<DownloadProgress | null>(null);
+
+  const refreshOfflineState = useCallback(async () => {
+    const [usage, ids] = await Promise.all([
+      getOfflineStorageUsage(),
+      getOfflineArticleIds(),
+    ]);
+    setStorageUsage(usage);
+    setOfflineIds(new Set(ids));
+  }, []);
+
+  // Bookmarking downloads in the background, so re-check when the list changes
+  useEffect(() => {
+    refreshOfflineState();
+  }, [bookmarks, refreshOfflineState]);
+
+  useFocusEffect(
+    useCallback(() => {
+      refreshOfflineState();
+    }, [refreshOfflineState])
+  );
+
+  const notDownloaded = useMemo(
+    () => bookmarks.filter((bookmark) => bookmark.url && !offlineIds.has(bookmark.contentId)),
+    [bookmarks, offlineIds]
+  );
+
+  // Tags across all bookmarks, most used first
+  const availableTags = useMemo(() => {
+    const counts = new Map<string, number>();
+    bookmarks.forEach((bookmark) => {
+      bookmark.tags.forEach((tag) => {
+        const key = tag.toLowerCase();
+        counts.set(key, (counts.get(key) || 0) + 1);
+      });
+    });
+
+    return Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([tag]) => tag);
+  }, [bookmarks]);
+
+  // Fall back to all once the last bookmark with the selected tag is gone,
+  // since its chip disappears with it
+  useEffect(() => {
+    if (selectedTag !== 'all' && !availableTags.includes(selectedTag)) {
+      setSelectedTag('all');
+    }
+  }, [availableTags, selectedTag]);
+
+  const visibleBookmarks = useMemo(() => {
+    const filtered = selectedTag === 'all'
+      ? bookmarks
+      : bookmarks.filter((bookmark) =>
+          bookmark.tags.some((tag) => tag.toLowerCase() === selectedTag)
+        );
+
+    return [...filtered].sort((a, b) => {
+      if (sortOrder === 'title') {
+        return a.title.localeCompare(b.title);
+      }
+      const diff = a.bookmarkedAt.getTime() - b.bookmarkedAt.getTime();
+      return sortOrder === 'oldest' ? diff : -diff;
+    });
+  }, [bookmarks, selectedTag, sortOrder]);
+
+  const handleSortChange = (order: SortOrder) => {
+    if (order === sortOrder) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSortOrder(order);
+  };
+
+  const handleTagChange = (tag: string) => {
+    if (tag === selectedTag) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setSelectedTag(tag);
+  };
+
+  const handleBookmarkPress = (bookmark: Bookmark) => {
+    if (bookmark.url) {
+      router.push({
+        pathname: '/reader',
+        params: {
+          url: bookmark.url,
+          title: bookmark.title,
+          contentId: bookmark.contentId,
+        },
+      });
+    }
+  };
+
+  const handleDownloadAll = async () => {
+    if (downloadProgress || notDownloaded.length === 0) return;
+
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    try {
+      const result = await downloadArticles(notDownloaded, (progress) => {
+        setDownloadProgress(progress);
+        refreshOfflineState();
+      });
+
+      await Haptics.notificationAsync(
+        result.failed > 0
+          ? Haptics.NotificationFeedbackType.Warning
+          : Haptics.NotificationFeedbackType.Success
+      );
+    } finally {
+      setDownloadProgress(null);
+      refreshOfflineState();
+    }
+  };
+
+  const handleRemove = async (bookmark: Bookmark) => {
+    try {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+      // Optimistic removal; the store restores it if the delete fails
+      await removeBookmark(bookmark.contentId);
+    } catch (error) {
+      console.error('Error removing bookmark:', error);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  const renderRightActions = () => {
+    return (
+      <View style={styles.swipeAction}>
+        <Ionicons name="trash-outline" size={28} color="#FFFFFF" />
+        <Text style={styles.swipeActionText}>Remove</Text>
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.container, styles.centerContent]}>
+        <StatusBar style="light" />
+        <ActivityIndicator size="large" color="#FFFFFF" />
+        <Text style={styles.loadingText}>Loading saved articles...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <GestureHandlerRootView style={styles.container}>
+      <StatusBar style="light" />
+
+      <ScrollView
+        style={styles.scrollView}
+        contentContainerStyle={[
+          styles.scrollContent,
+          { paddingTop: insets.top },
+        ]}
+        showsVerticalScrollIndicator={false}
+      >
+        {/* Header */}
+        <View style={styles.headerContainer}>
+          <Text style={styles.title}>Saved</Text>
+          <Text style={styles.subtitle}>
+            {bookmarks.length} {bookmarks.length === 1 ? 'article' : 'articles'}
+          </Text>
+        </View>
+
+        {bookmarks.length === 0 ? (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="bookmark-outline" size={48} color="#94B2C7" />
+            <Text style={styles.emptyText}>No saved articles yet</Text>
+            <Text style={styles.emptySubtext}>
+              Tap the bookmark icon on any article in your feed to read it later
+            </Text>
+          </View>
+        ) : (
+          <>
+            {/* Offline Storage */}
+            {storageUsage && (
+              <View style={styles.offlineCard}>
+                <View style={styles.offlineHeader}>
+                  <View style={styles.offlineInfo}>
+                    <Text style={styles.offlineTitle}>
+                      {storageUsage.articleCount} of {bookmarks.length} available offline
+                    </Text>
+                    <Text style={styles.offlineSubtitle}>
+                      {formatBytes(storageUsage.usedBytes)} of {formatBytes(storageUsage.limitBytes)} used
+                    </Text>
+                  </View>
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.downloadButton,
+                      pressed && styles.downloadButtonPressed,
+                      (notDownloaded.length === 0 || downloadProgress) && styles.downloadButtonDisabled,
+                    ]}
+                    onPress={handleDownloadAll}
+                    disabled={notDownloaded.length === 0 || !!downloadProgress}
+                    accessibilityLabel="Download all saved articles"
+                    accessibilityRole="button"
+                  >
+                    {downloadProgress ? (
+                      <>
+                        <ActivityIndicator size="small" color="#FFFFFF" />
+                        <Text style={styles.downloadButtonText}>
+                          {downloadProgress.completed}/{downloadProgress.total}
+                        </Text>
+                      </>
+                    ) : (
+                      <>
+                        <Ionicons name="cloud-download-outline" size={16} color="#FFFFFF" />
+                        <Text style={styles.downloadButtonText}>Download all</Text>
+                      </>
+                    )}
+                  </Pressable>
+                </View>
+                <View style={styles.storageBar}>
+                  <View
+                    style={[
+                      styles.storageBarFill,
+                      { width: `${Math.min(100, (storageUsage.usedBytes / storageUsage.limitBytes) * 100)}%` },
+                    ]}
+                  />
+                </View>
+              </View>
+            )}
+
+            {/* Sort Options */}
+            <View style={styles.sortContainer}>
+              {SORT_OPTIONS.map((option) => (
+                <Pressable
+                  key={option.value}
+                  style={[
+                    styles.sortOption,
+                    sortOrder === option.value && styles.sortOptionActive,
+                  ]}
+                  onPress={() => handleSortChange(option.value)}
+                >
+                  <Text style={[
+                    styles.sortOptionText,
+                    sortOrder === option.value && styles.sortOptionTextActive,
+                  ]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            {/* Tag Filters */}
+            {availableTags.length > 0 && (
+              <View style={styles.filtersContainer}>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  contentContainerStyle={styles.filtersScrollContent}
+                >
+                  {['all', ...availableTags].map((tag) => (
+                    <Pressable
+                      key={tag}
+                      style={[
+                        styles.filterChip,
+                        selectedTag === tag && styles.filterChipActive,
+                      ]}
+                      onPress={() => handleTagChange(tag)}
+                    >
+                      <Text style={[
+                        styles.filterChipText,
+                        selectedTag === tag && styles.filterChipTextActive,
+                      ]}>
+                        {tag === 'all' ? 'All' : tag.charAt(0).toUpperCase() + tag.slice(1)}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </ScrollView>
+              </View>
+            )}
+
+            {/* Bookmarks List */}
+            <View style={styles.listContainer}>
+              {visibleBookmarks.map((bookmark) => (
+                <Swipeable
+                  key={bookmark.contentId}
+                  renderRightActions={renderRightActions}
+                  onSwipeableOpen={() => handleRemove(bookmark)}
+                  overshootRight={false}
+                  rightThreshold={40}
+                >
+                  <Pressable
+                    style={({ pressed }) => [
+                      styles.card,
+                      pressed && styles.cardPressed,
+                    ]}
+                    onPress={() => handleBookmarkPress(bookmark)}
+                  >
+                    {bookmark.tags.length > 0 && (
+                      <View style={styles.tagsContainer}>
+                        {bookmark.tags.slice(0, 3).map((tag) => (
+                          <View key={tag} style={styles.tagChip}>
+                            <Text style={styles.tagText}>{tag}</Text>
+                          </View>
+                        ))}
+                      </View>
+                    )}
+                    <Text style={styles.cardTitle} numberOfLines={3}>
+                      {bookmark.title}
+                    </Text>
+                    {bookmark.excerpt && (
+                      <Text style={styles.cardExcerpt} numberOfLines={2}>
+                        {bookmark.excerpt}
+                      </Text>
+                    )}
+                    <View style={styles.cardMeta}>
+                      <Ionicons name="bookmark" size={12} color="#4A9EFF" />
+                      <Text style={styles.cardMetaText}>
+                        Saved {formatSavedDate(bookmark.bookmarkedAt)}
+                      </Text>
+                      {offlineIds.has(bookmark.contentId) && (
+                        <>
+                          <Ionicons name="cloud-done-outline" size={12} color="#4ADE80" />
+                          <Text style={styles.cardMetaText}>Offline</Text>
+                        </>
+                      )}
+                    </View>
+                  </Pressable>
+                </Swipeable>
+              ))}
+
+              {visibleBookmarks.length === 0 && (
+                <Text style={styles.noMatchesText}>
+                  No saved articles tagged {selectedTag}
+                </Text>
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </GestureHandlerRootView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121C21',
+  },
+  centerContent: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 100,
+  },
+  headerContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 12,
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 24,
+    lineHeight: 32,
+    color: '#FFFFFF',
+  },
+  subtitle: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 12,
+    lineHeight: 18,
+    color: '#94B2C7',
+  },
+  offlineCard: {
+    marginHorizontal: 16,
+    marginBottom: 12,
+    backgroundColor: '#1A2730',
+    borderRadius: 12,
+    padding: 12,
+    gap: 10,
+    borderWidth: 1,
+    borderColor: '#243847',
+  },
+  offlineHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  offlineInfo: {
+    flex: 1,
+    gap: 2,
+  },
+  offlineTitle: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  offlineSubtitle: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 12,
+    color: '#94B2C7',
+  },
+  downloadButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#4A9EFF',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  downloadButtonPressed: {
+    backgroundColor: '#3A7FDF',
+  },
+  downloadButtonDisabled: {
+    opacity: 0.5,
+  },
+  downloadButtonText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 13,
+    color: '#FFFFFF',
+  },
+  storageBar: {
+    height: 4,
+    backgroundColor: '#243847',
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  storageBarFill: {
+    height: '100%',
+    backgroundColor: '#4A9EFF',
+    borderRadius: 2,
+  },
+  sortContainer: {
+    flexDirection: 'row',
+    marginHorizontal: 16,
+    backgroundColor: '#1A2730',
+    borderRadius: 12,
+    padding: 4,
+    borderWidth: 1,
+    borderColor: '#243847',
+  },
+  sortOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  sortOptionActive: {
+    backgroundColor: '#243847',
+  },
+  sortOptionText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 13,
+    color: '#94B2C7',
+  },
+  sortOptionTextActive: {
+    color: '#FFFFFF',
+  },
+  filtersContainer: {
+    paddingVertical: 12,
+  },
+  filtersScrollContent: {
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  filterChip: {
+    backgroundColor: '#1A2730',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderWidth: 1,
+    borderColor: '#243847',
+  },
+  filterChipActive: {
+    backgroundColor: '#4A9EFF',
+    borderColor: '#4A9EFF',
+  },
+  filterChipText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 14,
+    color: '#94B2C7',
+  },
+  filterChipTextActive: {
+    color: '#FFFFFF',
+  },
+  listContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 4,
+  },
+  card: {
+    marginBottom: 16,
+    backgroundColor: 'rgba(26, 39, 48, 0.7)',
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(148, 178, 199, 0.15)',
+  },
+  cardPressed: {
+    backgroundColor: 'rgba(36, 56, 71, 0.8)',
+    transform: [{ scale: 0.98 }],
+  },
+  tagsContainer: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  tagChip: {
+    backgroundColor: '#243847',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  tagText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 12,
+    color: '#94B2C7',
+  },
+  cardTitle: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 16,
+    lineHeight: 20,
+    color: '#FFFFFF',
+  },
+  cardExcerpt: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 14,
+    lineHeight: 21,
+    color: '#94B2C7',
+  },
+  cardMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+  },
+  cardMetaText: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 12,
+    color: '#94B2C7',
+  },
+  swipeAction: {
+    backgroundColor: '#FF6B6B',
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 120,
+    marginBottom: 16,
+    borderTopRightRadius: 12,
+    borderBottomRightRadius: 12,
+    paddingHorizontal: 20,
+  },
+  swipeActionText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 12,
+    color: '#FFFFFF',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  loadingText: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 16,
+    color: '#94B2C7',
+    marginTop: 16,
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 80,
+    paddingHorizontal: 32,
+    gap: 8,
+  },
+  emptyText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 18,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  emptySubtext: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 14,
+    color: '#94B2C7',
+    textAlign: 'center',
+  },
+  noMatchesText: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 14,
+    color: '#94B2C7',
+    textAlign: 'center',
+    paddingVertical: 32,
+  },
+});
@@ -0,0 +1,480 @@
+import { StyleSheet, View, Text, Pressable, TextInput, FlatList, ListRenderItem, ActivityIndicator, Keyboard, Share, Platform } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { RecommendationItem } from '@/services/recommendationService';
+import { searchContent, getRecentSearches, addRecentSearch, removeRecentSearch, clearRecentSearches } from '@/services/searchService';
+import { saveInteraction } from '@/services/interactionService';
+import { useBookmarks } from '@/contexts/BookmarkContext';
+import ArticleCard from '@/components/ArticleCard';
+
+// Wait for typing to pause before querying
+const SEARCH_DEBOUNCE_MS = 350;
+const MIN_QUERY_LENGTH = 2;
+
+export default function SearchScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { isBookmarked, toggleBookmark } = useBookmarks();
+  const [queryText, setQueryText] = useState('');
+  const [results, setResults] = useState<RecommendationItem[]>([]);
+  // Matches in the whole catalogue; can be more than the results shown
+  const [totalMatches, setTotalMatches] = useState(0);
+  const [searchedQuery, setSearchedQuery] = useState<string | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  // Ignore responses from searches that were superseded while in flight
+  const latestSearchRef = useRef(0);
+
+  useEffect(() => {
+    getRecentSearches().then(setRecentSearches);
+  }, []);
+
+  const runSearch = async (text: string) => {
+    const searchId = ++latestSearchRef.current;
+
+    try {
+      setSearching(true);
+      setError(null);
+
+      const { items, total } = await searchContent(text);
+      if (searchId !== latestSearchRef.current) return;
+
+      setResults(items);
+      setTotalMatches(total);
+      setSearchedQuery(text);
+    } catch (err: any) {
+      if (searchId !== latestSearchRef.current) return;
+      setError(err.message || 'Search failed');
+    } finally {
+      if (searchId === latestSearchRef.current) {
+        setSearching(false);
+      }
+    }
+  };
+
+  // Search as the user types
+  useEffect(() => {
+    const text = queryText.trim();
+
+    if (text.length < MIN_QUERY_LENGTH) {
+      latestSearchRef.current++;
+      setResults([]);
+      setSearchedQuery(null);
+      setSearching(false);
+      setError(null);
+      return;
+    }
+
+    const timer = setTimeout(() => runSearch(text), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [queryText]);
+
+  const rememberSearch = async (text: string) => {
+    const updated = await addRecentSearch(text);
+    setRecentSearches(updated);
+  };
+
+  const handleSubmit = () => {
+    const text = queryText.trim();
+    if (text.length < MIN_QUERY_LENGTH) return;
+
+    rememberSearch(text);
+  };
+
+  const handleRecentPress = (text: string) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setQueryText(text);
+    rememberSearch(text);
+  };
+
+  const handleRemoveRecent = async (text: string) => {
+    const updated = await removeRecentSearch(text);
+    setRecentSearches(updated);
+  };
+
+  const handleClearRecent = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    await clearRecentSearches();
+    setRecentSearches([]);
+  };
+
+  const handleClearQuery = () => {
+    setQueryText('');
+  };
+
+  const handleResultPress = (item: RecommendationItem) => {
+    if (!item.url) return;
+
+    Keyboard.dismiss();
+    if (searchedQuery) {
+      rememberSearch(searchedQuery);
+    }
+
+    // A search click is a strong signal of interest
+    saveInteraction(item.contentId, 'search_click', {
+      surface: 'search',
+      position: results.findIndex((result) => result.contentId === item.contentId),
+    }).catch((error) => {
+      console.error('Error logging search click:', error);
+    });
+
+    router.push({
+      pathname: '/reader',
+      params: {
+        url: item.url,
+        title: item.title,
+        contentId: item.contentId,
+      },
+    });
+  };
+
+  const handleBookmark = async (item: RecommendationItem) => {
+    try {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      await toggleBookmark(item);
+    } catch (error) {
+      console.error('Error toggling bookmark:', error);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  const handleShare = async (item: RecommendationItem) => {
+    try {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+      if (!item.url) {
+        console.error('No URL to share');
+        return;
+      }
+
+      await Share.share({
+        message: Platform.OS === 'ios' ? item.title : `${item.title}\n\n${item.url}`,
+        url: item.url,
+        title: item.title,
+      });
+    } catch (error: any) {
+      if (error.message !== 'User did not share') {
+        console.error('Error sharing article:', error);
+      }
+    }
+  };
+
+  // Cards are memoized, so hand them stable callbacks that always call the latest handlers
+  const cardHandlersRef = useRef({ handleResultPress, handleBookmark, handleShare });
+  cardHandlersRef.current = { handleResultPress, handleBookmark, handleShare };
+
+  const onCardPress = useCallback((item: RecommendationItem) => {
+    cardHandlersRef.current.handleResultPress(item);
+  }, []);
+  const onCardBookmark = useCallback((item: RecommendationItem) => {
+    cardHandlersRef.current.handleBookmark(item);
+  }, []);
+  const onCardShare = useCallback((item: RecommendationItem) => {
+    cardHandlersRef.current.handleShare(item);
+  }, []);
+
+  const renderResult: ListRenderItem<RecommendationItem> = useCallback(({ item }) => (
+    <View style={styles.resultRow}>
+      <ArticleCard
+        item={item}
+        bookmarked={isBookmarked(item.contentId)}
+        onPress={onCardPress}
+        onBookmark={onCardBookmark}
+        onShare={onCardShare}
+      />
+    </View>
+  ), [isBookmarked, onCardPress, onCardBookmark, onCardShare]);
+
+  const showRecent = queryText.trim().length < MIN_QUERY_LENGTH;
+
+  const renderEmptyState = () => {
+    if (showRecent) {
+      if (recentSearches.length === 0) {
+        return (
+          <View style={styles.emptyContainer}>
+            <Ionicons name="search-outline" size={48} color="#94B2C7" />
+            <Text style={styles.emptyText}>Find an article</Text>
+            <Text style={styles.emptySubtext}>
+              Search by title, topic or a phrase you remember
+            </Text>
+          </View>
+        );
+      }
+
+      return (
+        <View style={styles.recentContainer}>
+          <View style={styles.recentHeader}>
+            <Text style={styles.sectionTitle}>Recent searches</Text>
+            <Pressable onPress={handleClearRecent} hitSlop={8}>
+              <Text style={styles.clearText}>Clear</Text>
+            </Pressable>
+          </View>
+          {recentSearches.map((text) => (
+            <Pressable
+              key={text}
+              style={({ pressed }) => [
+                styles.recentItem,
+                pressed && styles.recentItemPressed,
+              ]}
+              onPress={() => handleRecentPress(text)}
+            >
+              <Ionicons name="time-outline" size={18} color="#94B2C7" />
+              <Text style={styles.recentText} numberOfLines={1}>{text}</Text>
+              <Pressable
+                onPress={() => handleRemoveRecent(text)}
+                hitSlop={8}
+                accessibilityLabel={`Remove ${text} from recent searches`}
+                accessibilityRole="button"
+              >
+                <Ionicons name="close" size={18} color="#94B2C7" />
+              </Pressable>
+            </Pressable>
+          ))}
+        </View>
+      );
+    }
+
+    if (searching && !searchedQuery) {
+      return (
+        <View style={styles.stateContainer}>
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.stateContainer}>
+          <Text style={styles.errorText}>⚠️ {error}</Text>
+          <Pressable style={styles.retryButton} onPress={() => runSearch(queryText.trim())}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </Pressable>
+        </View>
+      );
+    }
+
+    if (searchedQuery) {
+      return (
+        <View style={styles.stateContainer}>
+          <Text style={styles.emptyText}>No results</Text>
+          <Text style={styles.emptySubtext}>
+            Nothing matches “{searchedQuery}”. Try a different word or topic.
+          </Text>
+        </View>
+      );
+    }
+
+    return null;
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar style="light" />
+
+      {/* Header */}
+      <View style={styles.headerContainer}>
+        <Text style={styles.title}>Search</Text>
+      </View>
+
+      {/* Search Input */}
+      <View style={styles.searchBar}>
+        <Ionicons name="search" size={18} color="#94B2C7" />
+        <TextInput
+          style={styles.searchInput}
+          value={queryText}
+          onChangeText={setQueryText}
+          onSubmitEditing={handleSubmit}
+          placeholder="Search articles"
+          placeholderTextColor="#94B2C7"
+          returnKeyType="search"
+          autoCorrect={false}
+          autoCapitalize="none"
+        />
+        {searching && searchedQuery !== null && (
+          <ActivityIndicator size="small" color="#94B2C7" />
+        )}
+        {queryText.length > 0 && (
+          <Pressable
+            onPress={handleClearQuery}
+            hitSlop={8}
+            accessibilityLabel="Clear search"
+            accessibilityRole="button"
+          >
+            <Ionicons name="close-circle" size={18} color="#94B2C7" />
+          </Pressable>
+        )}
+      </View>
+
+      {/* Results */}
+      <FlatList
+        data={showRecent ? [] : results}
+        renderItem={renderResult}
+        keyExtractor={(item) => item.contentId}
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        keyboardDismissMode="on-drag"
+        showsVerticalScrollIndicator={false}
+        ListHeaderComponent={
+          !showRecent && results.length > 0 ? (
+            <Text style={styles.resultCount}>
+              {totalMatches > results.length
+                ? `Top ${results.length} of ${totalMatches} results. Add words to narrow it down.`
+                : `${results.length} ${results.length === 1 ? 'result' : 'results'}`}
+            </Text>
+          ) : null
+        }
+        ListEmptyComponent={renderEmptyState()}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121C21',
+  },
+  headerContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 12,
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 24,
+    lineHeight: 32,
+    color: '#FFFFFF',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginHorizontal: 16,
+    marginBottom: 12,
+    backgroundColor: '#1A2730',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#243847',
+  },
+  searchInput: {
+    flex: 1,
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 16,
+    color: '#FFFFFF',
+    paddingVertical: 12,
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingBottom: 100,
+  },
+  resultRow: {
+    paddingHorizontal: 16,
+  },
+  resultCount: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 12,
+    color: '#94B2C7',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  recentContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 4,
+  },
+  recentHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 14,
+    color: '#FFFFFF',
+  },
+  clearText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 14,
+    color: '#4A9EFF',
+  },
+  recentItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#1A2730',
+  },
+  recentItemPressed: {
+    opacity: 0.6,
+  },
+  recentText: {
+    flex: 1,
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+  stateContainer: {
+    paddingVertical: 48,
+    paddingHorizontal: 16,
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 80,
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  emptyText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 18,
+    color: '#FFFFFF',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 14,
+    color: '#94B2C7',
+    textAlign: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 16,
+    color: '#FF6B6B',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    backgroundColor: '#4A9EFF',
+    borderRadius: 8,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  retryButtonText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
@@ -2,10 +2,13 @@ import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native
 import { Stack, useRouter, useSegments } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
+import { AppState } from 'react-native';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { BookmarkProvider } from '@/contexts/BookmarkContext';
+import { retryInteractionOutboxNow } from '@/services/interactionOutbox';
 
 export const unstable_settings = {
   initialRouteName: 'login',
@@ -35,6 +38,21 @@ function RootLayoutNav() {
     // - User is authenticated and in main app
   }, [user, loading, segments]);
 
+  // Deliver interactions queued while offline or before the last restart
+  useEffect(() => {
+    if (!user) return;
+
+    retryInteractionOutboxNow();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        retryInteractionOutboxNow();
+      }
+    });
+
+    return () => subscription.remove();
+  }, [user]);
+
   return (
     <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
@@ -68,6 +86,7 @@ function RootLayoutNav() {
             gestureEnabled: false,
           }} 
         />
+        <Stack.Screen name="history" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
       </Stack>
       <StatusBar style="auto" />
@@ -78,7 +97,9 @@ function RootLayoutNav() {
 export default function RootLayout() {
   return (
     <AuthProvider>
-      <RootLayoutNav />
+      <BookmarkProvider>
+        <RootLayoutNav />
+      </BookmarkProvider>
     </AuthProvider>
   );
 }
@@ -4,10 +4,15 @@ import { StatusBar } from 'expo-status-bar';
 import { useState, useEffect } from 'react';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { SvgXml } from 'react-native-svg';
-import { doc, setDoc, getDoc } from 'firebase/firestore';
-import { db } from '@/config/firebase';
 import { useAuth } from '@/contexts/AuthContext';
 import { invalidateRecommendationCache } from '@/services/recommendationService';
+import {
+  INTEREST_WEIGHTS,
+  DEFAULT_INTEREST_WEIGHT,
+  getWeightedInterests,
+  saveWeightedInterests,
+} from '@/services/interestService';
+import { InterestWeight } from '@/types/user';
 
 const INTERESTS = [
   'Technology',
@@ -34,11 +39,19 @@ const searchIconSvg = `<svg width="24" height="24" viewBox="0 0 24 24" fill="non
   <path d="M21 21L16.65 16.65M19 11C19 15.4183 15.4183 19 11 19C6.58172 19 3 15.4183 3 11C3 6.58172 6.58172 3 11 3C15.4183 3 19 6.58172 19 11Z" stroke="#99A1BD" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"/>
 </svg>`;
 
+const WEIGHT_LABELS: Record<InterestWeight, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
 export default function EditInterestsScreen() {
   const router = useRouter();
   const insets = useSafeAreaInsets();
   const { user } = useAuth();
   const [selectedInterests, setSelectedInterests] = useState<string[]>([]);
+  // Keyed by lowercase interest name, as stored
+  const [interestWeights, setInterestWeights] = useState<Record<string, InterestWeight>>({});
   const [searchQuery, setSearchQuery] = useState('');
   const [loading, setLoading] = useState(false);
   const [initialLoading, setInitialLoading] = useState(true);
@@ -52,19 +65,10 @@ export default function EditInterestsScreen() {
       }
 
       try {
-        const userDoc = await getDoc(doc(db, 'users', user.uid));
-        if (userDoc.exists()) {
-          const data = userDoc.data();
-          if (data.interests) {
-            // Capitalize first letter for display (interests are stored lowercase)
-            const displayInterests = data.interests.map((interest: string) => 
-              interest.charAt(0).toUpperCase() + interest.slice(1)
-            );
-            setSelectedInterests(displayInterests);
-          }
-        }
-      } catch (error) {
-        console.error('Error loading interests:', error);
+        const interests = await getWeightedInterests();
+        // Capitalize first letter for display (interests are stored lowercase)
+        setSelectedInterests(interests.map(({ name }) => name.charAt(0).toUpperCase() + name.slice(1)));
+        setInterestWeights(Object.fromEntries(interests.map(({ name, weight }) => [name, weight])));
       } finally {
         setInitialLoading(false);
       }
@@ -81,6 +85,13 @@ export default function EditInterestsScreen() {
     }
   };
 
+  const setInterestWeight = (interest: string, weight: InterestWeight) => {
+    setInterestWeights({ ...interestWeights, [interest.toLowerCase()]: weight });
+  };
+
+  const getInterestWeight = (interest: string): InterestWeight =>
+    interestWeights[interest.toLowerCase()] ?? DEFAULT_INTEREST_WEIGHT;
+
   const filteredInterests = INTERESTS.filter((interest) =>
     interest.toLowerCase().includes(searchQuery.toLowerCase())
   );
@@ -94,17 +105,12 @@ export default function EditInterestsScreen() {
     setLoading(true);
     try {
       if (user) {
-        // Normalize interests to lowercase for better matching
-        const normalizedInterests = selectedInterests.map(interest => interest.toLowerCase());
-        
-        // Save interests to Firestore
-        await setDoc(
-          doc(db, 'users', user.uid),
-          {
-            interests: normalizedInterests,
-            updatedAt: new Date().toISOString(),
-          },
-          { merge: true }
+        // Save interests to Firestore, lowercase for better matching
+        await saveWeightedInterests(
+          selectedInterests.map((interest) => ({
+            name: interest.toLowerCase(),
+            weight: getInterestWeight(interest),
+          }))
         );
         
         // Invalidate recommendation cache and sync to Gorse
@@ -203,6 +209,45 @@ export default function EditInterestsScreen() {
             </Pressable>
           ))}
         </View>
+
+        {/* Interest Weights */}
+        {selectedInterests.length > 0 && (
+          <View style={styles.weightsContainer}>
+            <Text style={styles.sectionTitle}>How much do you want of each?</Text>
+            {selectedInterests.map((interest) => {
+              const currentWeight = getInterestWeight(interest);
+              return (
+                <View key={interest} style={styles.weightRow}>
+                  <Text style={styles.weightInterest} numberOfLines={1}>{interest}</Text>
+                  <View style={styles.weightControl}>
+                    {INTEREST_WEIGHTS.map((weight) => (
+                      <Pressable
+                        key={weight}
+                        style={[
+                          styles.weightOption,
+                          currentWeight === weight && styles.weightOptionSelected,
+                        ]}
+                        onPress={() => setInterestWeight(interest, weight)}
+                        accessibilityRole="button"
+                        accessibilityState={{ selected: currentWeight === weight }}
+                        accessibilityLabel={`${WEIGHT_LABELS[weight]} interest in ${interest}`}
+                      >
+                        <Text
+                          style={[
+                            styles.weightOptionText,
+                            currentWeight === weight && styles.weightOptionTextSelected,
+                          ]}
+                        >
+                          {WEIGHT_LABELS[weight]}
+                        </Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
       </ScrollView>
     </View>
   );
@@ -337,4 +382,54 @@ const styles = StyleSheet.create({
   interestTextSelected: {
     color: '#FFFFFF',
   },
+  weightsContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  sectionTitle: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 16,
+    lineHeight: 23,
+    color: '#FFFFFF',
+    marginBottom: 8,
+  },
+  weightRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    gap: 12,
+  },
+  weightInterest: {
+    flex: 1,
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+  weightControl: {
+    flexDirection: 'row',
+    backgroundColor: '#262B3B',
+    borderRadius: 16,
+    padding: 2,
+  },
+  weightOption: {
+    paddingHorizontal: 12,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: 'center',
+  },
+  weightOptionSelected: {
+    backgroundColor: '#5C80FF',
+  },
+  weightOptionText: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 13,
+    color: '#99A1BD',
+  },
+  weightOptionTextSelected: {
+    color: '#FFFFFF',
+  },
 });
@@ -0,0 +1,476 @@
+import { StyleSheet, View, Text, Pressable, SectionList, ActivityIndicator, Alert } from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { GestureHandlerRootView, Swipeable } from 'react-native-gesture-handler';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { QueryDocumentSnapshot, DocumentData } from 'firebase/firestore';
+import { HistoryEntry, getReadingHistory, removeHistoryDay, clearReadingHistory } from '@/services/historyService';
+
+const PAGE_SIZE = 30;
+
+// One article per day; repeat views of it that day are folded together
+interface HistoryRow {
+  key: string;
+  latest: HistoryEntry;
+  entries: HistoryEntry[];
+}
+
+interface HistorySection {
+  title: string;
+  data: HistoryRow[];
+}
+
+const getDayKey = (date: Date): string => {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+};
+
+const formatDayTitle = (date: Date): string => {
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(today.getDate() - 1);
+
+  if (getDayKey(date) === getDayKey(today)) return 'Today';
+  if (getDayKey(date) === getDayKey(yesterday)) return 'Yesterday';
+
+  return date.toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    year: date.getFullYear() === today.getFullYear() ? undefined : 'numeric',
+  });
+};
+
+const formatViewTime = (date: Date): string => {
+  return date.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+};
+
+export default function HistoryScreen() {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [clearing, setClearing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const cursorRef = useRef<QueryDocumentSnapshot<DocumentData> | null>(null);
+  const loadingMoreRef = useRef(false);
+
+  const loadFirstPage = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const page = await getReadingHistory(PAGE_SIZE);
+      cursorRef.current = page.cursor;
+      setEntries(page.entries);
+      setHasMore(page.hasMore);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadFirstPage();
+  }, []);
+
+  const loadMore = async () => {
+    if (loadingMoreRef.current || !hasMore || !cursorRef.current) return;
+
+    try {
+      loadingMoreRef.current = true;
+      setLoadingMore(true);
+
+      const page = await getReadingHistory(PAGE_SIZE, cursorRef.current);
+      cursorRef.current = page.cursor;
+      setEntries(prev => [...prev, ...page.entries]);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('Failed to load more history:', err);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  };
+
+  const sections = useMemo(() => {
+    const result: HistorySection[] = [];
+    const rowsByKey = new Map<string, HistoryRow>();
+
+    // Entries arrive newest first, so the first view seen per day wins
+    entries.forEach((entry) => {
+      const dayKey = getDayKey(entry.viewedAt);
+      const rowKey = `${dayKey}:${entry.contentId}`;
+
+      const existing = rowsByKey.get(rowKey);
+      if (existing) {
+        existing.entries.push(entry);
+        return;
+      }
+
+      let section = result[result.length - 1];
+      if (!section || getDayKey(section.data[0].latest.viewedAt) !== dayKey) {
+        section = { title: formatDayTitle(entry.viewedAt), data: [] };
+        result.push(section);
+      }
+
+      const row = { key: rowKey, latest: entry, entries: [entry] };
+      rowsByKey.set(rowKey, row);
+      section.data.push(row);
+    });
+
+    return result;
+  }, [entries]);
+
+  const handleOpen = (entry: HistoryEntry) => {
+    if (!entry.url) return;
+
+    router.push({
+      pathname: '/reader',
+      params: {
+        url: entry.url,
+        title: entry.title,
+        contentId: entry.contentId,
+      },
+    });
+  };
+
+  const handleRemove = async (row: HistoryRow) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+
+    const removedIds = new Set(row.entries.map(entry => entry.eventId));
+    setEntries(prev => prev.filter(entry => !removedIds.has(entry.eventId)));
+
+    try {
+      await removeHistoryDay(row.latest.contentId, row.latest.viewedAt);
+    } catch (error) {
+      console.error('Error removing history entry:', error);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      loadFirstPage();
+    }
+  };
+
+  const handleClearAll = () => {
+    Alert.alert(
+      'Clear History',
+      'Remove every article from your reading history? This also resets what your feed has learned from them.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              setClearing(true);
+              await clearReadingHistory();
+              cursorRef.current = null;
+              setEntries([]);
+              setHasMore(false);
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to clear history');
+            } finally {
+              setClearing(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderRightActions = () => {
+    return (
+      <View style={styles.swipeAction}>
+        <Ionicons name="trash-outline" size={28} color="#FFFFFF" />
+        <Text style={styles.swipeActionText}>Remove</Text>
+      </View>
+    );
+  };
+
+  const renderRow = ({ item }: { item: HistoryRow }) => {
+    const { latest } = item;
+
+    return (
+      <Swipeable
+        renderRightActions={renderRightActions}
+        onSwipeableOpen={() => handleRemove(item)}
+        overshootRight={false}
+        rightThreshold={40}
+      >
+        <Pressable
+          style={({ pressed }) => [
+            styles.card,
+            pressed && styles.cardPressed,
+            !latest.url && styles.cardUnavailable,
+          ]}
+          onPress={() => handleOpen(latest)}
+          disabled={!latest.url}
+        >
+          {latest.tags.length > 0 && (
+            <View style={styles.tagsContainer}>
+              {latest.tags.slice(0, 3).map((tag) => (
+                <View key={tag} style={styles.tagChip}>
+                  <Text style={styles.tagText}>{tag}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+          <Text style={styles.cardTitle} numberOfLines={2}>
+            {latest.title}
+          </Text>
+          <View style={styles.cardMeta}>
+            <Ionicons name="time-outline" size={12} color="#94B2C7" />
+            <Text style={styles.cardMetaText}>
+              Read at {formatViewTime(latest.viewedAt)}
+              {item.entries.length > 1 ? ` • ${item.entries.length} times` : ''}
+            </Text>
+          </View>
+        </Pressable>
+      </Swipeable>
+    );
+  };
+
+  return (
+    <GestureHandlerRootView style={[styles.container, { paddingTop: insets.top }]}>
+      <StatusBar style="light" />
+
+      {/* Header */}
+      <View style={styles.headerContainer}>
+        <Pressable
+          style={styles.headerButton}
+          onPress={() => router.back()}
+          accessibilityLabel="Go back"
+          accessibilityRole="button"
+        >
+          <Ionicons name="arrow-back" size={24} color="#FFFFFF" />
+        </Pressable>
+        <Text style={styles.title}>History</Text>
+        <View style={styles.headerButton}>
+          {entries.length > 0 && (
+            clearing ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Pressable onPress={handleClearAll} hitSlop={8}>
+                <Text style={styles.clearText}>Clear</Text>
+              </Pressable>
+            )
+          )}
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.centerContent}>
+          <ActivityIndicator size="large" color="#FFFFFF" />
+        </View>
+      ) : error ? (
+        <View style={styles.centerContent}>
+          <Text style={styles.errorText}>⚠️ {error}</Text>
+          <Pressable style={styles.retryButton} onPress={loadFirstPage}>
+            <Text style={styles.retryButtonText}>Retry</Text>
+          </Pressable>
+        </View>
+      ) : (
+        <SectionList
+          sections={sections}
+          renderItem={renderRow}
+          renderSectionHeader={({ section }) => (
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+          )}
+          keyExtractor={(item) => item.key}
+          contentContainerStyle={styles.listContent}
+          stickySectionHeadersEnabled={false}
+          showsVerticalScrollIndicator={false}
+          onEndReached={loadMore}
+          onEndReachedThreshold={0.5}
+          ListEmptyComponent={
+            <View style={styles.emptyContainer}>
+              <Ionicons name="time-outline" size={48} color="#94B2C7" />
+              <Text style={styles.emptyText}>No reading history</Text>
+              <Text style={styles.emptySubtext}>
+                Articles you open will show up here
+              </Text>
+            </View>
+          }
+          ListFooterComponent={
+            loadingMore ? (
+              <View style={styles.footer}>
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              </View>
+            ) : null
+          }
+        />
+      )}
+    </GestureHandlerRootView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#121C21',
+  },
+  centerContent: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  headerContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 8,
+    paddingBottom: 12,
+  },
+  headerButton: {
+    width: 48,
+    height: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  title: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 24,
+    lineHeight: 32,
+    color: '#FFFFFF',
+  },
+  clearText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 14,
+    color: '#FF6B6B',
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 100,
+  },
+  sectionTitle: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 13,
+    color: '#94B2C7',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    paddingTop: 16,
+    paddingBottom: 8,
+  },
+  card: {
+    marginBottom: 12,
+    backgroundColor: 'rgba(26, 39, 48, 0.7)',
+    borderRadius: 16,
+    padding: 16,
+    gap: 8,
+    borderWidth: 1,
+    borderColor: 'rgba(148, 178, 199, 0.15)',
+  },
+  cardPressed: {
+    backgroundColor: 'rgba(36, 56, 71, 0.8)',
+    transform: [{ scale: 0.98 }],
+  },
+  cardUnavailable: {
+    opacity: 0.5,
+  },
+  tagsContainer: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+  },
+  tagChip: {
+    backgroundColor: '#243847',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  tagText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 12,
+    color: '#94B2C7',
+  },
+  cardTitle: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 16,
+    lineHeight: 20,
+    color: '#FFFFFF',
+  },
+  cardMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  cardMetaText: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 12,
+    color: '#94B2C7',
+  },
+  swipeAction: {
+    backgroundColor: '#FF6B6B',
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 120,
+    marginBottom: 12,
+    borderTopRightRadius: 12,
+    borderBottomRightRadius: 12,
+    paddingHorizontal: 20,
+  },
+  swipeActionText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 12,
+    color: '#FFFFFF',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    paddingTop: 80,
+    gap: 8,
+  },
+  emptyText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 18,
+    color: '#FFFFFF',
+    textAlign: 'center',
+  },
+  emptySubtext: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 14,
+    color: '#94B2C7',
+    textAlign: 'center',
+    paddingHorizontal: 32,
+  },
+  errorText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 16,
+    color: '#FF6B6B',
+    textAlign: 'center',
+    marginBottom: 16,
+  },
+  retryButton: {
+    backgroundColor: '#4A9EFF',
+    borderRadius: 8,
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+  },
+  retryButtonText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  footer: {
+    paddingVertical: 24,
+    alignItems: 'center',
+  },
+});
@@ -1,22 +1,111 @@
-import { StyleSheet, View, Text, Pressable, ActivityIndicator, ScrollView, useWindowDimensions, Animated, Linking } from 'react-native';
+import { StyleSheet, View, Text, Pressable, ActivityIndicator, ScrollView, useWindowDimensions, Animated, Linking, AppState } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
-import RenderHTML from 'react-native-render-html';
+import RenderHTML, {
+  CustomBlockRenderer,
+  CustomMixedRenderer,
+  CustomTagRendererRecord,
+  CustomTextualRenderer,
+  TNode,
+} from 'react-native-render-html';
 import * as Haptics from 'expo-haptics';
-import { saveInteraction } from '@/services/interactionService';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import { saveInteraction, recordReadingSession, getReaderContext } from '@/services/interactionService';
+import { ArticleData, parseArticle, prefetchArticle, isCatalogContentId } from '@/services/articleService';
+import { getOfflineArticle, saveOfflineArticle } from '@/services/offlineArticleService';
+import { ReaderQueueItem, getQueueNeighbors, markQueueItemRead } from '@/services/readerQueue';
+import { ReadingPosition, getReadingPosition, saveReadingPosition } from '@/services/readingPositionService';
+import { getLocalReaderSettings, getProfileReaderSettings, saveLocalReaderSettings, saveReaderSettings } from '@/services/readerSettingsService';
+import {
+  Highlight,
+  getArticleHighlights,
+  addHighlight,
+  updateHighlightNote,
+  deleteHighlight,
+} from '@/services/highlightService';
+import { TocEntry, applyHighlights, applyFindMatches, indexHeadings, indexImages } from '@/services/articleMarkup';
+import { useBookmarks } from '@/contexts/BookmarkContext';
+import ReaderSettingsSheet from '@/components/ReaderSettingsSheet';
+import HighlightComposer from '@/components/HighlightComposer';
+import HighlightsDrawer from '@/components/HighlightsDrawer';
+import LinkActionsSheet from '@/components/LinkActionsSheet';
+import TableOfContentsDrawer from '@/components/TableOfContentsDrawer';
+import FindInArticleBar from '@/components/FindInArticleBar';
+import LazyArticleImage, { ImageLoadAheadContext } from '@/components/LazyArticleImage';
+import ImageGallery from '@/components/ImageGallery';
+import OriginalPageView from '@/components/OriginalPageView';
+import {
+  ReaderSettings,
+  DEFAULT_READER_SETTINGS,
+  READER_THEMES,
+  READER_MARGINS,
+  READER_FONT_FAMILIES,
+  buildTagsStyles,
+} from '@/constants/readerTheme';
 
-const RECOMMENDER_URL = process.env.EXPO_PUBLIC_RECOMMENDER_URL || 'http://localhost:3000';
+// Matches the articleBody maxWidth
+const MAX_ARTICLE_WIDTH = 680;
 
-interface ArticleData {
-  title: string;
-  byline?: string;
-  content: string;
-  excerpt?: string;
-  siteName?: string;
-  publishedTime?: string;
+// Only offer to resume when the reader got somewhere but didn't finish
+const RESUME_MIN_PROGRESS = 5;
+const RESUME_MAX_PROGRESS = 95;
+
+// Scrolled this far means the reader saw the end of the article
+const END_SCROLL_DEPTH = 95;
+
+// Space kept clear above a section or match jumped to, below the floating buttons
+const JUMP_TOP_OFFSET = 72;
+
+const FIND_DEBOUNCE_MS = 300;
+
+// Horizontal swipe distance that moves to the next or previous article
+const QUEUE_SWIPE_DISTANCE = 80;
+
+// Visible text of a rendered node, used as the passage for a new highlight
+function getTNodeText(tnode: TNode): string {
+  if (tnode.type === 'text') return tnode.data;
+  return tnode.children.map(getTNodeText).join('');
+}
+
+function containsCurrentFindMatch(tnode: TNode): boolean {
+  if (tnode.classes.includes('find-match-current')) return true;
+  return tnode.children.some(containsCurrentFindMatch);
+}
+
+/**
+ * Block in the article that reports its offset within the article body
+ * through `onMeasure`, on layout and whenever `onMeasure` changes
+ */
+function MeasuredBlock({
+  bodyRef,
+  onMeasure,
+  onLongPress,
+  children,
+}: {
+  bodyRef: React.RefObject<View | null>;
+  onMeasure?: (y: number) => void;
+  onLongPress?: () => void;
+  children: React.ReactNode;
+}) {
+  const blockRef = useRef<View>(null);
+
+  const measure = useCallback(() => {
+    if (!onMeasure || !blockRef.current || !bodyRef.current) return;
+    blockRef.current.measureLayout(bodyRef.current, (_x, y) => onMeasure(y));
+  }, [onMeasure, bodyRef]);
+
+  useEffect(() => {
+    measure();
+  }, [measure]);
+
+  return (
+    <Pressable ref={blockRef} onLayout={measure} onLongPress={onLongPress} delayLongPress={400}>
+      {children}
+    </Pressable>
+  );
 }
 
 export default function ReaderScreen() {
@@ -24,19 +113,69 @@ export default function ReaderScreen() {
   const router = useRouter();
   const { width } = useWindowDimensions();
   const params = useLocalSearchParams();
-  const { url, title: paramTitle, contentId } = params;
+  const { url, title: paramTitle, contentId, queue } = params;
+  const { isBookmarked, toggleBookmark } = useBookmarks();
+  const bookmarked = contentId ? isBookmarked(contentId as string) : false;
+  // Bookmarked links from outside the catalog have an id too, but reads
+  // of them shouldn't reach the recommender
+  const feedbackContentId = contentId && isCatalogContentId(contentId as string) ? (contentId as string) : null;
   
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [article, setArticle] = useState<ArticleData | null>(null);
+  const [isOffline, setIsOffline] = useState(false);
   const [readingProgress, setReadingProgress] = useState(0);
   const [userAction, setUserAction] = useState<'like' | 'dislike' | null>(null);
   const [showActions, setShowActions] = useState(false);
+  const [readerSettings, setReaderSettings] = useState<ReaderSettings>(DEFAULT_READER_SETTINGS);
+  // Set once the user changes settings here, so a slower load can't undo it
+  const settingsEditedRef = useRef(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [highlights, setHighlights] = useState<Highlight[]>([]);
+  const [highlightPassage, setHighlightPassage] = useState<string | null>(null);
+  const [showHighlights, setShowHighlights] = useState(false);
+  const [focusedHighlightId, setFocusedHighlightId] = useState<string | null>(null);
+  const [resumePosition, setResumePosition] = useState<ReadingPosition | null>(null);
+  const [showToc, setShowToc] = useState(false);
+  const [currentSection, setCurrentSection] = useState(-1);
+  const [showFind, setShowFind] = useState(false);
+  const [findInput, setFindInput] = useState('');
+  const [findQuery, setFindQuery] = useState('');
+  const [findIndex, setFindIndex] = useState(0);
+  const [galleryIndex, setGalleryIndex] = useState<number | null>(null);
+  const [imageLoadAhead, setImageLoadAhead] = useState(0);
+  const [linkTarget, setLinkTarget] = useState<{ url: string; showPreview: boolean } | null>(null);
+  const [viewMode, setViewMode] = useState<'reader' | 'original'>('reader');
   
   const likeScale = useRef(new Animated.Value(1)).current;
   const dislikeScale = useRef(new Animated.Value(1)).current;
   const feedbackOpacity = useRef(new Animated.Value(0)).current;
   const screenOpacity = useRef(new Animated.Value(1)).current;
+  const scrollViewRef = useRef<ScrollView>(null);
+  const progressRef = useRef(0);
+  const hasScrolledRef = useRef(false);
+  const scrollMetricsRef = useRef({ contentHeight: 0, viewportHeight: 0 });
+  const maxScrollDepthRef = useRef(0);
+  const dwellMsRef = useRef(0);
+  const readingSinceRef = useRef<number | null>(null);
+  const sessionStartedRef = useRef(false);
+  const articleBodyRef = useRef<View>(null);
+  const articleBodyYRef = useRef(0);
+  const headingOffsetsRef = useRef(new Map<number, number>());
+  const currentSectionRef = useRef(-1);
+  const imageLoadAheadRef = useRef(0);
+
+  // Articles around this one in the list the reader was opened from
+  const queueNeighbors = useMemo(
+    () => (queue && contentId ? getQueueNeighbors(queue as string, contentId as string) : null),
+    [queue, contentId]
+  );
+
+  // Sent with every interaction recorded here, keeping the article's feed position
+  const interactionContext = useMemo(
+    () => getReaderContext(queueNeighbors?.current?.context),
+    [queueNeighbors]
+  );
 
   useEffect(() => {
     fetchArticle();
@@ -49,6 +188,150 @@ export default function ReaderScreen() {
     return () => clearTimeout(timer);
   }, [url]);
 
+  // Apply this device's reader settings right away, then any newer ones from the profile
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadReaderSettings = async () => {
+      const local = await getLocalReaderSettings();
+      if (!cancelled && !settingsEditedRef.current) setReaderSettings(local);
+
+      const remote = await getProfileReaderSettings();
+      if (!cancelled && !settingsEditedRef.current && remote) setReaderSettings(remote);
+    };
+
+    loadReaderSettings();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Record the view once per article opened; this feeds reading history
+  useEffect(() => {
+    if (!feedbackContentId) return;
+
+    saveInteraction(feedbackContentId, 'view', interactionContext).catch((error) => {
+      console.error('Error recording view:', error);
+    });
+  }, [feedbackContentId, interactionContext]);
+
+  // Look up where the user left off; the prompt shows once the article is on screen
+  useEffect(() => {
+    if (!contentId) return;
+    let cancelled = false;
+
+    getReadingPosition(contentId as string).then((position) => {
+      if (
+        !cancelled &&
+        position &&
+        position.progress >= RESUME_MIN_PROGRESS &&
+        position.progress <= RESUME_MAX_PROGRESS
+      ) {
+        setResumePosition(position);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contentId]);
+
+  // Save the position when leaving the article or the app
+  useEffect(() => {
+    if (!contentId) return;
+
+    const savePosition = () => {
+      if (!hasScrolledRef.current) return;
+      saveReadingPosition(contentId as string, progressRef.current);
+    };
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') savePosition();
+    });
+
+    return () => {
+      subscription.remove();
+      savePosition();
+    };
+  }, [contentId]);
+
+  // Start timing once the article, or its original page, is on screen
+  useEffect(() => {
+    if ((!article && viewMode !== 'original') || sessionStartedRef.current) return;
+    sessionStartedRef.current = true;
+    readingSinceRef.current = Date.now();
+  }, [article, viewMode]);
+
+  // Time on article only counts while the app is in the foreground; the
+  // session is reported when the reader closes
+  useEffect(() => {
+    if (!feedbackContentId) return;
+
+    const pauseTimer = () => {
+      if (readingSinceRef.current === null) return;
+      dwellMsRef.current += Date.now() - readingSinceRef.current;
+      readingSinceRef.current = null;
+    };
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active') {
+        if (sessionStartedRef.current && readingSinceRef.current === null) {
+          readingSinceRef.current = Date.now();
+        }
+      } else {
+        pauseTimer();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      if (!sessionStartedRef.current) return;
+
+      pauseTimer();
+      recordReadingSession(feedbackContentId, {
+        dwellMs: dwellMsRef.current,
+        scrollDepth: maxScrollDepthRef.current,
+        reachedEnd: maxScrollDepthRef.current >= END_SCROLL_DEPTH,
+      }, interactionContext).catch((error) => {
+        console.error('Error recording reading session:', error);
+      });
+    };
+  }, [feedbackContentId, interactionContext]);
+
+  // Let the source screen scroll back to the last article read
+  useEffect(() => {
+    if (!queue || !contentId) return;
+    markQueueItemRead(queue as string, contentId as string);
+  }, [queue, contentId]);
+
+  // Parse the next article while this one is being read
+  useEffect(() => {
+    const next = queueNeighbors?.next;
+    if (!article || !next) return;
+
+    getOfflineArticle(next.contentId)
+      .then((offlineArticle) => {
+        if (!offlineArticle) prefetchArticle(next.url);
+      })
+      .catch((error) => console.error('Error prefetching next article:', error));
+  }, [article, queueNeighbors]);
+
+  // Highlights are drawn into the article once it has loaded
+  useEffect(() => {
+    if (!contentId) return;
+    let cancelled = false;
+
+    getArticleHighlights(contentId as string)
+      .then((loaded) => {
+        if (!cancelled) setHighlights(loaded);
+      })
+      .catch((error) => console.error('Error loading highlights:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contentId]);
+
   const handleLike = async () => {
     try {
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -71,8 +354,8 @@ export default function ReaderScreen() {
       showFeedback('Liked! 👍');
       
       // Save interaction and sync to Gorse
-      if (contentId) {
-        await saveInteraction(contentId as string, 'like');
+      if (feedbackContentId) {
+        await saveInteraction(feedbackContentId, 'like', interactionContext);
       }
     } catch (error) {
       console.error('Error saving like:', error);
@@ -101,8 +384,8 @@ export default function ReaderScreen() {
       showFeedback('Not interested');
       
       // Save interaction and sync to Gorse
-      if (contentId) {
-        await saveInteraction(contentId as string, 'dismiss');
+      if (feedbackContentId) {
+        await saveInteraction(feedbackContentId, 'dismiss', interactionContext);
       }
       
       // Close article with smooth animation after a delay
@@ -120,6 +403,245 @@ export default function ReaderScreen() {
     }
   };
 
+  const handleBookmark = async () => {
+    if (!contentId) return;
+
+    try {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      
+      // Store what's already parsed so the bookmark doesn't need a second fetch
+      if (!bookmarked && article) {
+        saveOfflineArticle(contentId as string, url as string, article)
+          .then(() => setIsOffline(true))
+          .catch((error) => console.error('Error saving article offline:', error));
+      }
+      
+      await toggleBookmark({
+        contentId: contentId as string,
+        title: article?.title || (paramTitle as string) || '',
+        url: url as string,
+        excerpt: article?.excerpt,
+      });
+    } catch (error) {
+      console.error('Error toggling bookmark:', error);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  const handleSettingsChange = (settings: ReaderSettings) => {
+    settingsEditedRef.current = true;
+    setReaderSettings(settings);
+    saveLocalReaderSettings(settings);
+  };
+
+  const handleSettingsClose = () => {
+    setShowSettings(false);
+    saveReaderSettings(readerSettings);
+  };
+
+  const handleParagraphLongPress = useCallback((text: string) => {
+    const passage = text.replace(/\s+/g, ' ').trim();
+    if (!passage || !contentId) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setHighlightPassage(passage);
+  }, [contentId]);
+
+  const handleHighlightPress = useCallback((highlightId: string) => {
+    setFocusedHighlightId(highlightId);
+    setShowHighlights(true);
+  }, []);
+
+  const handleSaveHighlight = async (text: string, note: string) => {
+    if (!contentId) return;
+
+    try {
+      const highlight = await addHighlight(contentId as string, text, note);
+      setHighlights((prev) => [...prev, highlight]);
+      setHighlightPassage(null);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } catch (error) {
+      console.error('Error saving highlight:', error);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  const handleUpdateHighlightNote = async (highlightId: string, note: string) => {
+    await updateHighlightNote(highlightId, note);
+    setHighlights((prev) =>
+      prev.map((highlight) =>
+        highlight.id === highlightId ? { ...highlight, note: note.trim() || undefined } : highlight
+      )
+    );
+  };
+
+  const handleDeleteHighlight = async (highlightId: string) => {
+    await deleteHighlight(highlightId);
+    setHighlights((prev) => prev.filter((highlight) => highlight.id !== highlightId));
+  };
+
+  // Search once typing pauses; re-rendering the article on every keystroke is slow
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setFindQuery(findInput.trim().length >= 2 ? findInput : '');
+      setFindIndex(0);
+    }, FIND_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [findInput]);
+
+  const scrollToBodyOffset = useCallback((y: number) => {
+    const target = articleBodyYRef.current + y - insets.top - JUMP_TOP_OFFSET;
+    scrollViewRef.current?.scrollTo({ y: Math.max(target, 0), animated: true });
+  }, [insets.top]);
+
+  const handleHeadingMeasure = useCallback((index: number, y: number) => {
+    headingOffsetsRef.current.set(index, y);
+  }, []);
+
+  const handleCurrentMatchMeasure = useCallback((y: number) => {
+    scrollToBodyOffset(y);
+  }, [scrollToBodyOffset]);
+
+  // Load images up to two screens below the viewport. Raised in half-screen
+  // steps so scrolling doesn't re-render every image.
+  const updateImageLoadAhead = (scrollY: number, viewportHeight: number) => {
+    const loadAhead = scrollY + viewportHeight * 2 - articleBodyYRef.current;
+    if (loadAhead > imageLoadAheadRef.current + viewportHeight / 2 || imageLoadAheadRef.current === 0) {
+      imageLoadAheadRef.current = loadAhead;
+      setImageLoadAhead(loadAhead);
+    }
+  };
+
+  const handleImagePress = useCallback((index: number) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setGalleryIndex(index);
+  }, []);
+
+  // The current section is the last heading scrolled past the top of the screen
+  const updateCurrentSection = (scrollY: number) => {
+    const threshold = scrollY - articleBodyYRef.current + insets.top + JUMP_TOP_OFFSET + 1;
+    let section = -1;
+    headingOffsetsRef.current.forEach((offset, index) => {
+      if (offset <= threshold && index > section) section = index;
+    });
+
+    if (section !== currentSectionRef.current) {
+      currentSectionRef.current = section;
+      setCurrentSection(section);
+    }
+  };
+
+  const handleTocSelect = (entry: TocEntry) => {
+    setShowToc(false);
+    const offset = headingOffsetsRef.current.get(entry.index);
+    if (offset !== undefined) {
+      scrollToBodyOffset(offset);
+    }
+  };
+
+  const handleFindClose = () => {
+    setShowFind(false);
+    setFindInput('');
+    setFindQuery('');
+  };
+
+  // Tap offers what to do with a link; long-press adds a preview card
+  const handleLinkPress = useCallback((href: string, showPreview: boolean) => {
+    if (!href) return;
+
+    // Same-page anchors have nowhere to go in reader view
+    const [target] = href.split('#');
+    if (target === (url as string).split('#')[0]) return;
+
+    if (!/^https?:\/\//i.test(href)) {
+      Linking.openURL(href).catch((error) => console.error('Error opening link:', error));
+      return;
+    }
+
+    if (showPreview) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    setLinkTarget({ url: href, showPreview });
+  }, [url]);
+
+  // Replace rather than push, so back still returns to the source screen
+  const goToQueueItem = useCallback((item: ReaderQueueItem | null | undefined) => {
+    if (!item) return;
+
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.replace({
+      pathname: '/reader',
+      params: {
+        url: item.url,
+        title: item.title,
+        contentId: item.contentId,
+        queue: queue as string,
+      },
+    });
+  }, [router, queue]);
+
+  // Swipe left for the next article, right for the previous one. Vertical
+  // movement fails the gesture so it never fights the scroll.
+  const queueSwipeGesture = useMemo(() => Gesture.Pan()
+    .runOnJS(true)
+    .enabled(!!queueNeighbors && queueNeighbors.total > 1)
+    .activeOffsetX([-40, 40])
+    .failOffsetY([-20, 20])
+    .onEnd((event) => {
+      if (event.translationX <= -QUEUE_SWIPE_DISTANCE) {
+        goToQueueItem(queueNeighbors?.next);
+      } else if (event.translationX >= QUEUE_SWIPE_DISTANCE) {
+        goToQueueItem(queueNeighbors?.previous);
+      }
+    }), [queueNeighbors, goToQueueItem]);
+
+  // Show the source page instead of reader view. If the article failed to
+  // parse, try again behind it so reader view can be offered once it works.
+  const handleViewOriginal = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setViewMode('original');
+    setShowFind(false);
+    setReadingProgress(0);
+
+    if (!article) {
+      parseArticle(url as string)
+        .then((data) => {
+          setArticle(data);
+          setIsOffline(false);
+          setError(null);
+        })
+        .catch((error) => console.warn('Article still fails to parse:', error));
+    }
+  };
+
+  const handleViewReader = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setViewMode('reader');
+    setReadingProgress(progressRef.current);
+  };
+
+  // The original page reports its own scroll progress. It isn't saved as a
+  // reading position, which wouldn't line up with reader view.
+  const handleOriginalProgress = useCallback((progress: number) => {
+    setReadingProgress(progress);
+    maxScrollDepthRef.current = Math.max(maxScrollDepthRef.current, progress);
+  }, []);
+
+  const handleHighlightsClose = () => {
+    setShowHighlights(false);
+    setFocusedHighlightId(null);
+  };
+
+  const handleResume = () => {
+    if (!resumePosition) return;
+
+    const { contentHeight, viewportHeight } = scrollMetricsRef.current;
+    const y = (resumePosition.progress / 100) * Math.max(contentHeight - viewportHeight, 0);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    scrollViewRef.current?.scrollTo({ y, animated: true });
+    setResumePosition(null);
+  };
+
   const showFeedback = (message: string) => {
     Animated.sequence([
       Animated.timing(feedbackOpacity, {
@@ -141,29 +663,19 @@ export default function ReaderScreen() {
       setLoading(true);
       setError(null);
 
-      const response = await fetch(
-        `${RECOMMENDER_URL}/article/parse?url=${encodeURIComponent(url as string)}`
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => '');
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.error || 'Failed to parse article');
+      // Prefer the downloaded copy; it works offline and skips the parse
+      if (contentId) {
+        const offlineArticle = await getOfflineArticle(contentId as string);
+        if (offlineArticle) {
+          setArticle(offlineArticle);
+          setIsOffline(true);
+          return;
+        }
       }
 
-      setArticle({
-        title: data.title,
-        byline: data.byline,
-        content: data.content,
-        excerpt: data.excerpt,
-        siteName: data.siteName,
-        publishedTime: data.publishedTime,
-      });
+      const data = await parseArticle(url as string);
+      setArticle(data);
+      setIsOffline(false);
     } catch (err: any) {
       console.error('Error fetching article:', err);
       setError(err.message || 'Failed to load article');
@@ -172,197 +684,151 @@ export default function ReaderScreen() {
     }
   };
 
-  // Custom HTML renderers for dark theme with refined typography
-  const tagsStyles = {
-    body: {
-      color: '#E8E8E8',
-      fontSize: 18,
-      lineHeight: 30,
-      fontFamily: 'System',
-      fontWeight: '400',
-    },
-    p: {
-      marginBottom: 20,
-      color: '#E8E8E8',
-      fontSize: 18,
-      lineHeight: 30,
-    },
-    h1: {
-      color: '#FFFFFF',
-      fontSize: 32,
-      fontWeight: '700',
-      marginTop: 32,
-      marginBottom: 16,
-      lineHeight: 40,
-    },
-    h2: {
-      color: '#FFFFFF',
-      fontSize: 26,
-      fontWeight: '700',
-      marginTop: 28,
-      marginBottom: 14,
-      lineHeight: 34,
-    },
-    h3: {
-      color: '#FFFFFF',
-      fontSize: 22,
-      fontWeight: '600',
-      marginTop: 24,
-      marginBottom: 12,
-      lineHeight: 30,
-    },
-    h4: {
-      color: '#FFFFFF',
-      fontSize: 20,
-      fontWeight: '600',
-      marginTop: 20,
-      marginBottom: 10,
-      lineHeight: 28,
-    },
-    h5: {
-      color: '#FFFFFF',
-      fontSize: 18,
-      fontWeight: '600',
-      marginTop: 18,
-      marginBottom: 8,
-      lineHeight: 26,
-    },
-    h6: {
-      color: '#FFFFFF',
-      fontSize: 16,
-      fontWeight: '600',
-      marginTop: 16,
-      marginBottom: 6,
-      lineHeight: 24,
-    },
-    a: {
-      color: '#5BA3FF',
-      textDecorationLine: 'underline',
-      textDecorationColor: '#5BA3FF',
-    },
-    strong: {
-      color: '#FFFFFF',
-      fontWeight: '700',
-    },
-    b: {
-      color: '#FFFFFF',
-      fontWeight: '700',
-    },
-    em: {
-      fontStyle: 'italic',
-      color: '#E8E8E8',
-    },
-    i: {
-      fontStyle: 'italic',
-      color: '#E8E8E8',
-    },
-    blockquote: {
-      borderLeftWidth: 3,
-      borderLeftColor: '#5BA3FF',
-      paddingLeft: 20,
-      marginLeft: 0,
-      marginVertical: 20,
-      fontStyle: 'italic',
-      color: '#B0B0B0',
-      backgroundColor: '#1A2730',
-      paddingVertical: 12,
-      paddingRight: 16,
-      borderRadius: 4,
-    },
-    code: {
-      backgroundColor: '#1A2730',
-      color: '#5BA3FF',
-      paddingHorizontal: 8,
-      paddingVertical: 3,
-      borderRadius: 4,
-      fontFamily: 'Courier',
-      fontSize: 16,
-    },
-    pre: {
-      backgroundColor: '#1A2730',
-      padding: 16,
-      borderRadius: 8,
-      marginVertical: 16,
-      overflow: 'scroll',
-    },
-    ul: {
-      marginVertical: 12,
-      paddingLeft: 24,
-    },
-    ol: {
-      marginVertical: 12,
-      paddingLeft: 24,
-    },
-    li: {
-      marginBottom: 10,
-      color: '#E8E8E8',
-      fontSize: 18,
-      lineHeight: 28,
-    },
-    img: {
-      marginVertical: 20,
-      borderRadius: 12,
-      backgroundColor: '#1A2730',
-    },
-    figure: {
-      marginVertical: 24,
-    },
-    figcaption: {
-      color: '#94B2C7',
-      fontSize: 14,
-      fontStyle: 'italic',
-      marginTop: 8,
-      textAlign: 'center',
-    },
-    hr: {
-      marginVertical: 24,
-      borderBottomWidth: 1,
-      borderBottomColor: '#243847',
-    },
-    table: {
-      marginVertical: 16,
-      borderWidth: 1,
-      borderColor: '#243847',
-      borderRadius: 8,
-    },
-    th: {
-      backgroundColor: '#1A2730',
-      color: '#FFFFFF',
-      fontWeight: '600',
-      padding: 12,
-      borderBottomWidth: 2,
-      borderBottomColor: '#243847',
-    },
-    td: {
-      color: '#E8E8E8',
-      padding: 12,
-      borderBottomWidth: 1,
-      borderBottomColor: '#243847',
-    },
+  // Tag styles follow the reader settings, so changes apply without re-parsing
+  const tagsStyles = useMemo(() => buildTagsStyles(readerSettings), [readerSettings]);
+  const palette = READER_THEMES[readerSettings.theme];
+  const margin = READER_MARGINS[readerSettings.margin];
+
+  const indexedArticle = useMemo(() => {
+    if (!article) return { html: '', entries: [], images: [] };
+    const withHeadings = indexHeadings(article.content);
+    const withImages = indexImages(withHeadings.html, url as string);
+    return { html: withImages.html, entries: withHeadings.entries, images: withImages.images };
+  }, [article, url]);
+  const tocEntries = indexedArticle.entries;
+  const articleImages = indexedArticle.images;
+  const contentWidth = Math.min(width, MAX_ARTICLE_WIDTH) - margin * 2;
+
+  const highlightedHtml = useMemo(
+    () => applyHighlights(indexedArticle.html, highlights),
+    [indexedArticle, highlights]
+  );
+
+  const findResult = useMemo(
+    () => applyFindMatches(highlightedHtml, findQuery, findIndex),
+    [highlightedHtml, findQuery, findIndex]
+  );
+  const displayHtml = findResult.html;
+
+  const showReader = !!article && !loading && !error && viewMode === 'reader';
+  const showOriginal = viewMode === 'original';
+
+  const stepFindMatch = (delta: number) => {
+    if (findResult.count === 0) return;
+    Haptics.selectionAsync();
+    setFindIndex((index) => (index + delta + findResult.count) % findResult.count);
   };
 
-  const classesStyles = {
+  // Long-press a paragraph to highlight it; tap a highlight to see its note.
+  // Headings and the paragraph holding the current find match report where
+  // they are so the table of contents and find bar can scroll to them.
+  const renderers = useMemo<CustomTagRendererRecord>(() => {
+    const ParagraphRenderer: CustomMixedRenderer = ({ TDefaultRenderer, tnode, ...props }) => (
+      <MeasuredBlock
+        bodyRef={articleBodyRef}
+        onMeasure={containsCurrentFindMatch(tnode) ? handleCurrentMatchMeasure : undefined}
+        onLongPress={() => handleParagraphLongPress(getTNodeText(tnode))}
+      >
+        <TDefaultRenderer tnode={tnode} {...props} />
+      </MeasuredBlock>
+    );
+    const HeadingRenderer: CustomMixedRenderer = ({ TDefaultRenderer, tnode, ...props }) => {
+      const tocIndex = tnode.attributes['data-toc-index'];
+      if (tocIndex === undefined) {
+        return <TDefaultRenderer tnode={tnode} {...props} />;
+      }
+      return (
+        <MeasuredBlock
+          bodyRef={articleBodyRef}
+          onMeasure={(y) => handleHeadingMeasure(Number(tocIndex), y)}
+        >
+          <TDefaultRenderer tnode={tnode} {...props} />
+        </MeasuredBlock>
+      );
+    };
+    const MarkRenderer: CustomTextualRenderer = ({ TDefaultRenderer, tnode, ...props }) => {
+      const highlightId = tnode.attributes['data-highlight-id'];
+      return (
+        <TDefaultRenderer
+          tnode={tnode}
+          {...props}
+          onPress={highlightId ? () => handleHighlightPress(highlightId) : props.onPress}
+        />
+      );
+    };
+    const ImageRenderer: CustomBlockRenderer = ({ TDefaultRenderer, tnode, ...props }) => {
+      const image = articleImages[Number(tnode.attributes['data-image-index'])];
+      if (!image) {
+        return <TDefaultRenderer tnode={tnode} {...props} />;
+      }
+      return (
+        <LazyArticleImage
+          image={image}
+          bodyRef={articleBodyRef}
+          maxWidth={contentWidth}
+          placeholderColor={palette.surface}
+          iconColor={palette.muted}
+          onPress={handleImagePress}
+        />
+      );
+    };
+    const LinkRenderer: CustomMixedRenderer = ({ TDefaultRenderer, tnode, ...props }) => {
+      const onLongPress = () => handleLinkPress(tnode.attributes.href, true);
+      return (
+        <TDefaultRenderer
+          tnode={tnode}
+          {...props}
+          textProps={{ ...props.textProps, onLongPress }}
+        />
+      );
+    };
+    return {
+      p: ParagraphRenderer,
+      li: ParagraphRenderer,
+      h1: HeadingRenderer,
+      h2: HeadingRenderer,
+      h3: HeadingRenderer,
+      h4: HeadingRenderer,
+      mark: MarkRenderer,
+      a: LinkRenderer,
+      img: ImageRenderer,
+    };
+  }, [
+    articleImages,
+    contentWidth,
+    palette.surface,
+    palette.muted,
+    handleImagePress,
+    handleParagraphLongPress,
+    handleHighlightPress,
+    handleLinkPress,
+    handleHeadingMeasure,
+    handleCurrentMatchMeasure,
+  ]);
+
+  const classesStyles = useMemo(() => ({
     'article-content': {
       padding: 0,
     },
-  };
+    'find-match': {
+      backgroundColor: '#FFE082',
+      color: '#121C21',
+    },
+    'find-match-current': {
+      backgroundColor: '#FFA726',
+    },
+  }), []);
 
   const renderersProps = {
-    img: {
-      enableExperimentalPercentWidth: true,
-    },
     a: {
-      onPress: (event: any, href: string) => {
-        console.log('Link pressed:', href);
-        // Could open in browser or show preview
-      },
+      onPress: (event: any, href: string) => handleLinkPress(href, false),
     },
   };
 
   return (
-    <Animated.View style={[styles.container, { opacity: screenOpacity }]}>
+    <Animated.View style={[styles.container, { opacity: screenOpacity, backgroundColor: palette.background }]}>
       <Stack.Screen options={{ headerShown: false }} />
-      <StatusBar style="light" />
+      <StatusBar style={palette.statusBar} />
       
       {/* Back Button - Floating */}
       <View style={[styles.backButtonContainer, { top: insets.top + 8 }]}>
@@ -374,8 +840,106 @@ export default function ReaderScreen() {
         </Pressable>
       </View>
 
+      {/* Find Bar - Floating, over the top buttons while open */}
+      {showFind && showReader && (
+        <View style={[styles.findBarContainer, { top: insets.top + 8 }]}>
+          <FindInArticleBar
+            query={findInput}
+            onChangeQuery={setFindInput}
+            matchCount={findResult.count}
+            currentIndex={findIndex}
+            onPrevious={() => stepFindMatch(-1)}
+            onNext={() => stepFindMatch(1)}
+            onClose={handleFindClose}
+          />
+        </View>
+      )}
+
+      {/* Reader Tool Buttons - Floating */}
+      <View style={[styles.topRightButtons, { top: insets.top + 8 }]}>
+        {showOriginal && article && (
+          <Pressable
+            style={styles.backButton}
+            onPress={handleViewReader}
+            accessibilityLabel="Reader view"
+            accessibilityRole="button"
+          >
+            <Ionicons name="reader-outline" size={22} color="#FFFFFF" />
+          </Pressable>
+        )}
+        {showReader && (
+          <Pressable
+            style={styles.backButton}
+            onPress={handleViewOriginal}
+            accessibilityLabel="View original page"
+            accessibilityRole="button"
+          >
+            <Ionicons name="globe-outline" size={22} color="#FFFFFF" />
+          </Pressable>
+        )}
+        {showReader && (
+          <Pressable
+            style={styles.backButton}
+            onPress={() => setShowFind(true)}
+            accessibilityLabel="Find in article"
+            accessibilityRole="button"
+          >
+            <Ionicons name="search" size={22} color="#FFFFFF" />
+          </Pressable>
+        )}
+        {tocEntries.length > 0 && showReader && (
+          <Pressable
+            style={styles.backButton}
+            onPress={() => setShowToc(true)}
+            accessibilityLabel="Table of contents"
+            accessibilityRole="button"
+          >
+            <Ionicons name="list" size={22} color="#FFFFFF" />
+          </Pressable>
+        )}
+        {!showOriginal && (
+          <Pressable
+            style={styles.backButton}
+            onPress={() => setShowSettings(true)}
+            accessibilityLabel="Reading settings"
+            accessibilityRole="button"
+          >
+            <Ionicons name="text-outline" size={22} color="#FFFFFF" />
+          </Pressable>
+        )}
+        {contentId && !showOriginal && (
+          <Pressable
+            style={styles.backButton}
+            onPress={() => setShowHighlights(true)}
+            accessibilityLabel={`Highlights, ${highlights.length}`}
+            accessibilityRole="button"
+          >
+            <Ionicons name="color-wand-outline" size={22} color="#FFFFFF" />
+            {highlights.length > 0 && (
+              <View style={styles.highlightBadge}>
+                <Text style={styles.highlightBadgeText}>{highlights.length}</Text>
+              </View>
+            )}
+          </Pressable>
+        )}
+        {contentId && (
+          <Pressable
+            style={styles.backButton}
+            onPress={handleBookmark}
+            accessibilityLabel={bookmarked ? 'Remove bookmark' : 'Bookmark article'}
+            accessibilityRole="button"
+          >
+            <Ionicons
+              name={bookmarked ? 'bookmark' : 'bookmark-outline'}
+              size={22}
+              color={bookmarked ? '#4A9EFF' : '#FFFFFF'}
+            />
+          </Pressable>
+        )}
+      </View>
+
       {/* Action Buttons - Floating */}
-      {showActions && article && !loading && !error && (
+      {showActions && (showReader || showOriginal) && (
         <View style={[styles.actionButtonsContainer, { bottom: insets.bottom + 24 }]}>
           <Animated.View style={{ transform: [{ scale: dislikeScale }] }}>
             <Pressable
@@ -415,6 +979,31 @@ export default function ReaderScreen() {
         </View>
       )}
 
+      {/* Resume Prompt */}
+      {resumePosition && showReader && (
+        <View style={[styles.resumePrompt, { top: insets.top + 64 }]}>
+          <Pressable
+            style={styles.resumeButton}
+            onPress={handleResume}
+            accessibilityRole="button"
+            accessibilityLabel={`Continue where you left off, ${Math.round(resumePosition.progress)} percent`}
+          >
+            <Ionicons name="play-forward" size={18} color="#4A9EFF" />
+            <View style={styles.resumeTextContainer}>
+              <Text style={styles.resumeTitle}>Continue where you left off</Text>
+              <Text style={styles.resumeSubtitle}>{Math.round(resumePosition.progress)}% read</Text>
+            </View>
+          </Pressable>
+          <Pressable
+            onPress={() => setResumePosition(null)}
+            hitSlop={8}
+            accessibilityLabel="Start from the beginning"
+          >
+            <Ionicons name="close" size={20} color="#94B2C7" />
+          </Pressable>
+        </View>
+      )}
+
       {/* Feedback Toast */}
       <Animated.View 
         style={[
@@ -440,23 +1029,26 @@ export default function ReaderScreen() {
       )}
 
       {/* Error State */}
-      {error && !loading && (
+      {error && !loading && !showOriginal && (
         <View style={styles.errorContainer}>
           <Ionicons name="alert-circle-outline" size={48} color="#FF6B6B" />
           <Text style={styles.errorTitle}>Unable to Load Article</Text>
           <Text style={styles.errorText}>{error}</Text>
           <Text style={styles.errorHint}>
-            Some websites block article parsing. You can open it in your browser instead.
+            Some websites block article parsing. You can view the original page or open it in your browser instead.
           </Text>
+          <Pressable style={styles.openBrowserButton} onPress={handleViewOriginal}>
+            <Ionicons name="globe-outline" size={20} color="#FFFFFF" />
+            <Text style={styles.openBrowserButtonText}>View Original</Text>
+          </Pressable>
           <Pressable 
-            style={styles.openBrowserButton} 
+            style={styles.retryButton} 
             onPress={async () => {
               await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
               Linking.openURL(url as string);
             }}
           >
-            <Ionicons name="open-outline" size={20} color="#FFFFFF" />
-            <Text style={styles.openBrowserButtonText}>Open in Browser</Text>
+            <Text style={styles.retryButtonText}>Open in Browser</Text>
           </Pressable>
           <Pressable style={styles.retryButton} onPress={fetchArticle}>
             <Text style={styles.retryButtonText}>Try Again</Text>
@@ -468,79 +1060,206 @@ export default function ReaderScreen() {
       )}
 
       {/* Reading Progress Bar */}
-      {article && !loading && !error && (
-        <View style={styles.progressBarContainer}>
-          <View style={[styles.progressBar, { width: `${readingProgress}%` }]} />
+      {(showReader || showOriginal) && (
+        <View style={[styles.progressBarContainer, { backgroundColor: palette.surface }]}>
+          <View style={[styles.progressBar, { width: `${readingProgress}%`, backgroundColor: palette.link }]} />
         </View>
       )}
 
+      {/* Original Page */}
+      {showOriginal && (
+        <OriginalPageView
+          url={url as string}
+          topInset={insets.top + 60}
+          onProgress={handleOriginalProgress}
+        />
+      )}
+
       {/* Article Content */}
-      {article && !loading && !error && (
-        <ScrollView
-          style={styles.scrollView}
-          contentContainerStyle={styles.scrollContent}
-          showsVerticalScrollIndicator={false}
-          onScroll={(event) => {
-            const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
-            const progress = (contentOffset.y / (contentSize.height - layoutMeasurement.height)) * 100;
-            setReadingProgress(Math.min(Math.max(progress, 0), 100));
-          }}
-          scrollEventThrottle={16}
-        >
-          {/* Article Header */}
-          <View style={styles.articleHeader}>
-            <Text style={styles.articleTitle}>{article.title}</Text>
+      {showReader && (
+        <GestureHandlerRootView style={styles.scrollView}>
+          <GestureDetector gesture={queueSwipeGesture}>
+            <ScrollView
+              ref={scrollViewRef}
+              style={styles.scrollView}
+              contentContainerStyle={styles.scrollContent}
+              showsVerticalScrollIndicator={false}
+              onLayout={(event) => {
+                scrollMetricsRef.current.viewportHeight = event.nativeEvent.layout.height;
+                updateImageLoadAhead(0, event.nativeEvent.layout.height);
+              }}
+              onContentSizeChange={(_, contentHeight) => {
+                scrollMetricsRef.current.contentHeight = contentHeight;
+                // Short articles that fit on screen are read without scrolling
+                if (contentHeight <= scrollMetricsRef.current.viewportHeight) {
+                  maxScrollDepthRef.current = 100;
+                }
+              }}
+              onScroll={(event) => {
+                const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+                const scrollableHeight = contentSize.height - layoutMeasurement.height;
+                if (scrollableHeight <= 0) return;
+
+                const progress = Math.min(Math.max((contentOffset.y / scrollableHeight) * 100, 0), 100);
+                setReadingProgress(progress);
+                progressRef.current = progress;
+                maxScrollDepthRef.current = Math.max(maxScrollDepthRef.current, progress);
+                updateCurrentSection(contentOffset.y);
+                updateImageLoadAhead(contentOffset.y, layoutMeasurement.height);
+              }}
+              onScrollBeginDrag={() => {
+                hasScrolledRef.current = true;
+              }}
+              scrollEventThrottle={16}
+            >
+              {/* Article Header */}
+              <View
+                style={[
+                  styles.articleHeader,
+                  {
+                    paddingHorizontal: margin,
+                    backgroundColor: palette.background,
+                    borderBottomColor: palette.border,
+                  },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.articleTitle,
+                    { color: palette.heading, fontFamily: READER_FONT_FAMILIES[readerSettings.fontFamily] },
+                  ]}
+                >
+                  {article.title}
+                </Text>
             
-            <View style={styles.metadataContainer}>
-              {article.byline && (
-                <View style={styles.metadataRow}>
-                  <Ionicons name="person-outline" size={14} color="#94B2C7" />
-                  <Text style={styles.articleByline}>{article.byline}</Text>
-                </View>
-              )}
+                <View style={styles.metadataContainer}>
+                  {article.byline && (
+                    <View style={styles.metadataRow}>
+                      <Ionicons name="person-outline" size={14} color={palette.muted} />
+                      <Text style={[styles.articleByline, { color: palette.quote }]}>{article.byline}</Text>
+                    </View>
+                  )}
               
-              {article.publishedTime && (
-                <View style={styles.metadataRow}>
-                  <Ionicons name="time-outline" size={14} color="#94B2C7" />
-                  <Text style={styles.articleDate}>
-                    {new Date(article.publishedTime).toLocaleDateString('en-US', {
-                      year: 'numeric',
-                      month: 'long',
-                      day: 'numeric',
-                    })}
-                  </Text>
-                </View>
-              )}
+                  {article.publishedTime && (
+                    <View style={styles.metadataRow}>
+                      <Ionicons name="time-outline" size={14} color={palette.muted} />
+                      <Text style={[styles.articleDate, { color: palette.muted }]}>
+                        {new Date(article.publishedTime).toLocaleDateString('en-US', {
+                          year: 'numeric',
+                          month: 'long',
+                          day: 'numeric',
+                        })}
+                      </Text>
+                    </View>
+                  )}
               
-              {article.excerpt && (
-                <Text style={styles.articleExcerpt}>{article.excerpt}</Text>
-              )}
-            </View>
-          </View>
-
-          {/* Article Body */}
-          <View style={styles.articleBody}>
-            <RenderHTML
-              contentWidth={width - 40}
-              source={{ html: article.content }}
-              tagsStyles={tagsStyles}
-              classesStyles={classesStyles}
-              renderersProps={renderersProps}
-              defaultTextProps={{
-                selectable: true,
-              }}
-              enableExperimentalMarginCollapsing={true}
-            />
-          </View>
+                  {isOffline && (
+                    <View style={styles.metadataRow}>
+                      <Ionicons name="cloud-done-outline" size={14} color="#4ADE80" />
+                      <Text style={styles.offlineText}>Available offline</Text>
+                    </View>
+                  )}
+              
+                  {article.excerpt && (
+                    <Text style={[styles.articleExcerpt, { color: palette.muted }]}>{article.excerpt}</Text>
+                  )}
+                </View>
+              </View>
+
+              {/* Article Body */}
+              <View
+                ref={articleBodyRef}
+                style={[styles.articleBody, { paddingHorizontal: margin }]}
+                onLayout={(event) => {
+                  articleBodyYRef.current = event.nativeEvent.layout.y;
+                }}
+              >
+                <ImageLoadAheadContext.Provider value={imageLoadAhead}>
+                  <RenderHTML
+                    contentWidth={contentWidth}
+                    source={{ html: displayHtml, baseUrl: url as string }}
+                    tagsStyles={tagsStyles}
+                    classesStyles={classesStyles}
+                    renderers={renderers}
+                    renderersProps={renderersProps}
+                    enableExperimentalMarginCollapsing={true}
+                  />
+                </ImageLoadAheadContext.Provider>
+              </View>
           
-          {/* End of Article Indicator */}
-          <View style={styles.endIndicator}>
-            <View style={styles.endDivider} />
-            <Text style={styles.endText}>End of Article</Text>
-            <View style={styles.endDivider} />
-          </View>
-        </ScrollView>
+              {/* End of Article Indicator */}
+              <View style={styles.endIndicator}>
+                <View style={[styles.endDivider, { backgroundColor: palette.border }]} />
+                <Text style={[styles.endText, { color: palette.muted }]}>End of Article</Text>
+                <View style={[styles.endDivider, { backgroundColor: palette.border }]} />
+              </View>
+
+              {/* Up Next */}
+              {queueNeighbors?.next && (
+                <Pressable
+                  style={[styles.upNextCard, { backgroundColor: palette.surface, borderColor: palette.border }]}
+                  onPress={() => goToQueueItem(queueNeighbors.next)}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Next article: ${queueNeighbors.next.title}`}
+                >
+                  <View style={styles.upNextText}>
+                    <Text style={[styles.upNextLabel, { color: palette.link }]}>
+                      Up next · {queueNeighbors.position + 2} of {queueNeighbors.total}
+                    </Text>
+                    <Text style={[styles.upNextTitle, { color: palette.text }]} numberOfLines={2}>
+                      {queueNeighbors.next.title}
+                    </Text>
+                  </View>
+                  <Ionicons name="chevron-forward" size={22} color={palette.muted} />
+                </Pressable>
+              )}
+            </ScrollView>
+          </GestureDetector>
+        </GestureHandlerRootView>
       )}
+
+      <ReaderSettingsSheet
+        visible={showSettings}
+        settings={readerSettings}
+        onChange={handleSettingsChange}
+        onClose={handleSettingsClose}
+      />
+
+      <HighlightComposer
+        visible={highlightPassage !== null}
+        passage={highlightPassage || ''}
+        onSave={handleSaveHighlight}
+        onClose={() => setHighlightPassage(null)}
+      />
+
+      <HighlightsDrawer
+        visible={showHighlights}
+        highlights={highlights}
+        focusedId={focusedHighlightId}
+        onUpdateNote={handleUpdateHighlightNote}
+        onDelete={handleDeleteHighlight}
+        onClose={handleHighlightsClose}
+      />
+
+      <TableOfContentsDrawer
+        visible={showToc}
+        entries={tocEntries}
+        currentIndex={currentSection}
+        onSelect={handleTocSelect}
+        onClose={() => setShowToc(false)}
+      />
+
+      <ImageGallery
+        images={articleImages}
+        initialIndex={galleryIndex}
+        onClose={() => setGalleryIndex(null)}
+      />
+
+      <LinkActionsSheet
+        url={linkTarget?.url ?? null}
+        showPreview={linkTarget?.showPreview ?? false}
+        onClose={() => setLinkTarget(null)}
+      />
     </Animated.View>
   );
 }
@@ -555,6 +1274,19 @@ const styles = StyleSheet.create({
     left: 16,
     zIndex: 10,
   },
+  topRightButtons: {
+    position: 'absolute',
+    right: 16,
+    zIndex: 10,
+    flexDirection: 'row',
+    gap: 8,
+  },
+  findBarContainer: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    zIndex: 11,
+  },
   backButton: {
     width: 44,
     height: 44,
@@ -568,6 +1300,24 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 5,
   },
+  highlightBadge: {
+    position: 'absolute',
+    top: 2,
+    right: 2,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    backgroundColor: '#4A9EFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  highlightBadgeText: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 11,
+    color: '#FFFFFF',
+  },
   scrollView: {
     flex: 1,
   },
@@ -614,6 +1364,13 @@ const styles = StyleSheet.create({
     color: '#94B2C7',
     letterSpacing: 0.3,
   },
+  offlineText: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 13,
+    color: '#4ADE80',
+    letterSpacing: 0.3,
+  },
   articleExcerpt: {
     fontFamily: 'System',
     fontWeight: '400',
@@ -745,6 +1502,37 @@ const styles = StyleSheet.create({
     letterSpacing: 1,
     textTransform: 'uppercase',
   },
+  upNextCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginHorizontal: 20,
+    marginBottom: 24,
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    backgroundColor: '#1A2730',
+    borderColor: '#243847',
+  },
+  upNextText: {
+    flex: 1,
+    gap: 4,
+  },
+  upNextLabel: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 12,
+    color: '#4A9EFF',
+    letterSpacing: 0.5,
+    textTransform: 'uppercase',
+  },
+  upNextTitle: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 16,
+    lineHeight: 22,
+    color: '#FFFFFF',
+  },
   actionButtonsContainer: {
     position: 'absolute',
     right: 20,
@@ -790,6 +1578,48 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 8,
   },
+  resumePrompt: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    zIndex: 10,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(26, 39, 48, 0.97)',
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#243847',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  resumeButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  resumeTextContainer: {
+    flex: 1,
+  },
+  resumeTitle: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+  resumeSubtitle: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 13,
+    color: '#94B2C7',
+    marginTop: 2,
+  },
   feedbackText: {
     fontFamily: 'System',
     fontWeight: '600',
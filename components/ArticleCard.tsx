@@ -0,0 +1,354 @@
+import { memo } from 'react';
+import { StyleSheet, View, Text, Pressable } from 'react-native';
+import { Swipeable } from 'react-native-gesture-handler';
+import { Ionicons } from '@expo/vector-icons';
+import { RecommendationItem } from '@/services/recommendationService';
+
+export interface ArticleCardProps {
+  item: RecommendationItem;
+  bookmarked: boolean;
+  onPress: (item: RecommendationItem) => void;
+  onBookmark: (item: RecommendationItem) => void;
+  onShare: (item: RecommendationItem) => void;
+  // Enables swipe-to-dismiss when provided
+  onDismiss?: (item: RecommendationItem) => void;
+  // Shows a "why am I seeing this?" button next to the match score when provided
+  onExplain?: (item: RecommendationItem) => void;
+  // Opens the card's options from an overflow button or a long press when provided
+  onMore?: (item: RecommendationItem) => void;
+}
+
+export const getReadingTime = (text: string): number => {
+  const wordsPerMinute = 200;
+  const words = text.split(/\s+/).filter(word => word.length > 0).length;
+
+  // If text is very short (like just a title), estimate based on typical article length
+  if (words < 50) {
+    return 3; // Assume 3 min for short excerpts
+  }
+
+  return Math.max(1, Math.ceil(words / wordsPerMinute));
+};
+
+export const getTagColor = (tag: string): string => {
+  const tagColors: { [key: string]: string } = {
+    'ai': '#60A5FA',
+    'technology': '#60A5FA',
+    'startups': '#34D399',
+    'business': '#34D399',
+    'design': '#A78BFA',
+    'science': '#F472B6',
+    'news': '#FBBF24',
+    'world': '#FBBF24',
+    'policy': '#FB923C',
+    'finance': '#10B981',
+    'health': '#EC4899',
+    'psychology': '#8B5CF6',
+  };
+
+  return tagColors[tag.toLowerCase()] || '#94B2C7';
+};
+
+const renderRightActions = () => {
+  return (
+    <View style={styles.swipeAction}>
+      <Ionicons name="close-circle" size={32} color="#FFFFFF" />
+      <Text style={styles.swipeActionText}>Not Interested</Text>
+    </View>
+  );
+};
+
+/**
+ * Feed article card. Memoized so list rows only re-render when their
+ * own item or bookmark state changes; callers should pass stable handlers.
+ */
+function ArticleCard({
+  item,
+  bookmarked,
+  onPress,
+  onBookmark,
+  onShare,
+  onDismiss,
+  onExplain,
+  onMore,
+}: ArticleCardProps) {
+  const matchPercent = Math.min(Math.round(item.score * 100), 100);
+
+  const card = (
+    <Pressable
+      style={({ pressed }) => [
+        styles.articleCard,
+        pressed && styles.articleCardPressed,
+      ]}
+      onPress={() => onPress(item)}
+      onLongPress={onMore ? () => onMore(item) : undefined}
+      delayLongPress={400}
+    >
+      <View style={styles.articleContent}>
+        <View style={styles.articleTextContainer}>
+          <View style={styles.articleHeader}>
+            {item.tags && item.tags.length > 0 && (
+              <View style={styles.tagsContainer}>
+                {item.tags.slice(0, 3).map((tag, idx) => {
+                  const tagColor = getTagColor(tag);
+                  return (
+                    <View
+                      key={idx}
+                      style={[
+                        styles.tagChip,
+                        { backgroundColor: `${tagColor}33` } // 20% opacity
+                      ]}
+                    >
+                      <Text style={[styles.tagText, { color: tagColor }]}>
+                        {tag}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </View>
+            )}
+            <View style={styles.interactionIcons}>
+              <Pressable
+                onPress={(e) => {
+                  e.stopPropagation();
+                  onBookmark(item);
+                }}
+                hitSlop={8}
+                accessibilityLabel={bookmarked ? "Remove bookmark" : "Bookmark article"}
+                accessibilityRole="button"
+              >
+                <Ionicons
+                  name={bookmarked ? "bookmark" : "bookmark-outline"}
+                  size={20}
+                  color={bookmarked ? "#4A9EFF" : "#94B2C7"}
+                />
+              </Pressable>
+              <Pressable
+                onPress={(e) => {
+                  e.stopPropagation();
+                  onShare(item);
+                }}
+                hitSlop={8}
+                accessibilityLabel="Share article"
+                accessibilityRole="button"
+              >
+                <Ionicons name="share-outline" size={20} color="#94B2C7" />
+              </Pressable>
+              {onMore && (
+                <Pressable
+                  onPress={(e) => {
+                    e.stopPropagation();
+                    onMore(item);
+                  }}
+                  hitSlop={8}
+                  accessibilityLabel="More options"
+                  accessibilityRole="button"
+                >
+                  <Ionicons name="ellipsis-horizontal" size={20} color="#94B2C7" />
+                </Pressable>
+              )}
+            </View>
+          </View>
+          <View style={styles.articleTitleContainer}>
+            <Text style={styles.articleTitle} numberOfLines={3}>
+              {item.title}
+            </Text>
+          </View>
+          {item.excerpt && (
+            <View style={styles.articleDescriptionContainer}>
+              <Text style={styles.articleDescription} numberOfLines={3}>
+                {item.excerpt}
+              </Text>
+            </View>
+          )}
+          <View style={styles.metaContainer}>
+            <View style={styles.metaRow}>
+              <View style={styles.readTimeContainer}>
+                <Ionicons name="time-outline" size={14} color="#94B2C7" />
+                <Text style={styles.readTimeText}>
+                  {getReadingTime(item.excerpt || item.title)} min read
+                </Text>
+              </View>
+              <View style={styles.scoreContainer}>
+                <View style={styles.scoreBar}>
+                  <View style={[styles.scoreBarFill, { width: `${matchPercent}%` }]} />
+                </View>
+                <Text style={styles.scoreText}>
+                  {matchPercent}% match
+                </Text>
+                {onExplain && (
+                  <Pressable
+                    onPress={(e) => {
+                      e.stopPropagation();
+                      onExplain(item);
+                    }}
+                    hitSlop={8}
+                    accessibilityLabel="Why am I seeing this?"
+                    accessibilityRole="button"
+                  >
+                    <Ionicons name="information-circle-outline" size={18} color="#94B2C7" />
+                  </Pressable>
+                )}
+              </View>
+            </View>
+          </View>
+        </View>
+      </View>
+    </Pressable>
+  );
+
+  if (!onDismiss) {
+    return card;
+  }
+
+  return (
+    <Swipeable
+      renderRightActions={renderRightActions}
+      onSwipeableOpen={() => onDismiss(item)}
+      overshootRight={false}
+      rightThreshold={40}
+    >
+      {card}
+    </Swipeable>
+  );
+}
+
+export default memo(ArticleCard);
+
+const styles = StyleSheet.create({
+  articleCard: {
+    marginBottom: 16,
+    backgroundColor: 'rgba(26, 39, 48, 0.7)',
+    borderRadius: 16,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: 'rgba(148, 178, 199, 0.15)',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 8 },
+    shadowOpacity: 0.25,
+    shadowRadius: 16,
+    elevation: 8,
+  },
+  articleCardPressed: {
+    backgroundColor: 'rgba(36, 56, 71, 0.8)',
+    transform: [{ scale: 0.98 }],
+  },
+  articleContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  articleTextContainer: {
+    flex: 1,
+    gap: 8,
+  },
+  articleHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  tagsContainer: {
+    flexDirection: 'row',
+    gap: 8,
+    flexWrap: 'wrap',
+    flex: 1,
+  },
+  interactionIcons: {
+    flexDirection: 'row',
+    gap: 16,
+    alignItems: 'center',
+  },
+  tagChip: {
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  tagText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 12,
+  },
+  articleTitleContainer: {
+    alignSelf: 'stretch',
+  },
+  articleTitle: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 16,
+    lineHeight: 20,
+    color: '#FFFFFF',
+  },
+  articleDescriptionContainer: {
+    alignSelf: 'stretch',
+  },
+  articleDescription: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 14,
+    lineHeight: 21,
+    color: '#94B2C7',
+  },
+  metaContainer: {
+    marginTop: 12,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  readTimeContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  readTimeText: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 12,
+    color: '#94B2C7',
+  },
+  scoreContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    flex: 1,
+  },
+  scoreBar: {
+    flex: 1,
+    height: 4,
+    backgroundColor: '#243847',
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  scoreBarFill: {
+    height: '100%',
+    backgroundColor: '#4A9EFF',
+    borderRadius: 2,
+  },
+  scoreText: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 11,
+    color: '#94B2C7',
+    minWidth: 60,
+  },
+  swipeAction: {
+    backgroundColor: '#FF6B6B',
+    justifyContent: 'center',
+    alignItems: 'center',
+    width: 120,
+    marginBottom: 16,
+    borderTopRightRadius: 12,
+    borderBottomRightRadius: 12,
+    paddingHorizontal: 20,
+  },
+  swipeActionText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 12,
+    color: '#FFFFFF',
+    marginTop: 4,
+    textAlign: 'center',
+  },
+});
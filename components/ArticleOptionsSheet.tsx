@@ -0,0 +1,150 @@
+import { StyleSheet, View, Text, Pressable, Modal } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { RecommendationItem } from '@/services/recommendationService';
+import { MuteRuleKind, getSiteFromUrl } from '@/services/muteRuleService';
+
+export interface ArticleOptionsSheetProps {
+  /** Card the menu is for; the sheet is hidden while this is null */
+  item: RecommendationItem | null;
+  onExplain: (item: RecommendationItem) => void;
+  onMute: (kind: MuteRuleKind, value: string) => void;
+  onDismiss: (item: RecommendationItem) => void;
+  onClose: () => void;
+}
+
+// Tags offered for "show less", matching what the card shows
+const MAX_TAG_OPTIONS = 3;
+
+interface OptionRowProps {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  onPress: () => void;
+}
+
+function OptionRow({ icon, label, onPress }: OptionRowProps) {
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.optionRow, pressed && styles.optionRowPressed]}
+      onPress={onPress}
+      accessibilityRole="button"
+    >
+      <Ionicons name={icon} size={22} color="#FFFFFF" />
+      <Text style={styles.optionLabel} numberOfLines={1}>{label}</Text>
+    </Pressable>
+  );
+}
+
+/**
+ * Overflow menu for a feed card: explain the pick, show less of one of
+ * its tags, hide its site, or dismiss just this article
+ */
+export default function ArticleOptionsSheet({
+  item,
+  onExplain,
+  onMute,
+  onDismiss,
+  onClose,
+}: ArticleOptionsSheetProps) {
+  const insets = useSafeAreaInsets();
+
+  if (!item) return null;
+
+  const tags = (item.tags || []).slice(0, MAX_TAG_OPTIONS);
+  const site = item.url ? getSiteFromUrl(item.url) : null;
+
+  return (
+    <Modal
+      visible
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={[styles.sheet, { paddingBottom: insets.bottom + 16 }]}>
+        <View style={styles.handle} />
+
+        <Text style={styles.articleTitle} numberOfLines={2}>{item.title}</Text>
+
+        <OptionRow
+          icon="information-circle-outline"
+          label="Why am I seeing this?"
+          onPress={() => onExplain(item)}
+        />
+        {tags.map((tag) => (
+          <OptionRow
+            key={tag}
+            icon="remove-circle-outline"
+            label={`Show less about ${tag}`}
+            onPress={() => onMute('tag', tag)}
+          />
+        ))}
+        {site && (
+          <OptionRow
+            icon="eye-off-outline"
+            label={`Hide articles from ${site}`}
+            onPress={() => onMute('site', site)}
+          />
+        )}
+        <OptionRow
+          icon="close-circle-outline"
+          label="Not interested in this article"
+          onPress={() => onDismiss(item)}
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#1A2730',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderColor: '#243847',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#243847',
+    marginBottom: 12,
+  },
+  articleTitle: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#94B2C7',
+    paddingBottom: 12,
+    marginBottom: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#243847',
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    paddingVertical: 14,
+    paddingHorizontal: 4,
+    borderRadius: 10,
+  },
+  optionRowPressed: {
+    backgroundColor: '#243847',
+  },
+  optionLabel: {
+    flex: 1,
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,102 @@
+import { StyleSheet, View, Text, TextInput, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+export interface FindInArticleBarProps {
+  query: string;
+  onChangeQuery: (query: string) => void;
+  /** Number of matches for the current search */
+  matchCount: number;
+  /** Zero-based index of the selected match */
+  currentIndex: number;
+  onPrevious: () => void;
+  onNext: () => void;
+  onClose: () => void;
+}
+
+export default function FindInArticleBar({
+  query,
+  onChangeQuery,
+  matchCount,
+  currentIndex,
+  onPrevious,
+  onNext,
+  onClose,
+}: FindInArticleBarProps) {
+  const hasMatches = matchCount > 0;
+  const status = !query.trim()
+    ? ''
+    : hasMatches
+      ? `${currentIndex + 1}/${matchCount}`
+      : 'No matches';
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="search" size={18} color="#94B2C7" />
+      <TextInput
+        style={styles.input}
+        value={query}
+        onChangeText={onChangeQuery}
+        placeholder="Find in article"
+        placeholderTextColor="#5C7A8F"
+        autoFocus
+        autoCorrect={false}
+        autoCapitalize="none"
+        returnKeyType="search"
+        onSubmitEditing={onNext}
+        blurOnSubmit={false}
+      />
+      {status ? <Text style={styles.status}>{status}</Text> : null}
+      <Pressable
+        onPress={onPrevious}
+        disabled={!hasMatches}
+        hitSlop={6}
+        accessibilityLabel="Previous match"
+      >
+        <Ionicons name="chevron-up" size={22} color={hasMatches ? '#FFFFFF' : '#5C7A8F'} />
+      </Pressable>
+      <Pressable
+        onPress={onNext}
+        disabled={!hasMatches}
+        hitSlop={6}
+        accessibilityLabel="Next match"
+      >
+        <Ionicons name="chevron-down" size={22} color={hasMatches ? '#FFFFFF' : '#5C7A8F'} />
+      </Pressable>
+      <Pressable onPress={onClose} hitSlop={6} accessibilityLabel="Close find">
+        <Ionicons name="close" size={22} color="#94B2C7" />
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    height: 44,
+    paddingHorizontal: 14,
+    borderRadius: 22,
+    backgroundColor: 'rgba(26, 39, 48, 0.97)',
+    borderWidth: 1,
+    borderColor: '#243847',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 5,
+  },
+  input: {
+    flex: 1,
+    fontFamily: 'System',
+    fontSize: 15,
+    color: '#FFFFFF',
+    paddingVertical: 0,
+  },
+  status: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 13,
+    color: '#94B2C7',
+  },
+});
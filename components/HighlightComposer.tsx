@@ -0,0 +1,245 @@
+import { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+
+export interface HighlightComposerProps {
+  visible: boolean;
+  /** Text of the paragraph the user long-pressed */
+  passage: string;
+  onSave: (text: string, note: string) => Promise<void>;
+  onClose: () => void;
+}
+
+interface Selection {
+  start: number;
+  end: number;
+}
+
+/**
+ * Bottom sheet for saving a highlight. The long-pressed paragraph is shown
+ * in a read-only input so the user can narrow the selection to the words
+ * they want; by default the whole paragraph is highlighted.
+ */
+export default function HighlightComposer({
+  visible,
+  passage,
+  onSave,
+  onClose,
+}: HighlightComposerProps) {
+  const insets = useSafeAreaInsets();
+  const [selection, setSelection] = useState<Selection>({ start: 0, end: passage.length });
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setSelection({ start: 0, end: passage.length });
+      setNote('');
+    }
+  }, [visible, passage]);
+
+  const selectedText = selection.end > selection.start
+    ? passage.slice(selection.start, selection.end).trim()
+    : passage.trim();
+
+  const handleSave = async () => {
+    if (!selectedText || saving) return;
+
+    try {
+      setSaving(true);
+      await onSave(selectedText, note);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={[styles.sheet, { paddingBottom: insets.bottom + 16 }]}>
+          <View style={styles.handle} />
+
+          <View style={styles.headerRow}>
+            <Text style={styles.title}>New Highlight</Text>
+            <Pressable onPress={onClose} hitSlop={8} accessibilityLabel="Cancel highlight">
+              <Ionicons name="close" size={24} color="#94B2C7" />
+            </Pressable>
+          </View>
+
+          <Text style={styles.hint}>Select the part you want to keep, or save the whole paragraph.</Text>
+
+          {/* Passage */}
+          <TextInput
+            style={styles.passage}
+            value={passage}
+            multiline
+            scrollEnabled
+            showSoftInputOnFocus={false}
+            contextMenuHidden
+            selection={selection}
+            onSelectionChange={(event) => setSelection(event.nativeEvent.selection)}
+            onChangeText={() => {}}
+            selectionColor="#4A9EFF"
+            accessibilityLabel="Passage to highlight"
+          />
+
+          {/* Note */}
+          <TextInput
+            style={styles.noteInput}
+            value={note}
+            onChangeText={setNote}
+            placeholder="Add a note (optional)"
+            placeholderTextColor="#5C7A8F"
+            multiline
+            maxLength={1000}
+          />
+
+          <View style={styles.buttonRow}>
+            <Pressable style={styles.cancelButton} onPress={onClose}>
+              <Text style={styles.cancelButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              style={[styles.saveButton, (!selectedText || saving) && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={!selectedText || saving}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <Text style={styles.saveButtonText}>Save Highlight</Text>
+              )}
+            </Pressable>
+          </View>
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#1A2730',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderColor: '#243847',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#243847',
+    marginBottom: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  title: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 18,
+    color: '#FFFFFF',
+  },
+  hint: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 13,
+    color: '#94B2C7',
+    marginBottom: 12,
+  },
+  passage: {
+    maxHeight: 200,
+    backgroundColor: '#121C21',
+    borderRadius: 12,
+    borderLeftWidth: 3,
+    borderLeftColor: '#F2C94C',
+    padding: 12,
+    fontFamily: 'System',
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#E8E8E8',
+    textAlignVertical: 'top',
+  },
+  noteInput: {
+    minHeight: 72,
+    marginTop: 12,
+    backgroundColor: '#121C21',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#243847',
+    padding: 12,
+    fontFamily: 'System',
+    fontSize: 15,
+    color: '#FFFFFF',
+    textAlignVertical: 'top',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  cancelButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#243847',
+  },
+  cancelButtonText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+  saveButton: {
+    flex: 2,
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#4A9EFF',
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  Pressable,
+  Modal,
+  ScrollView,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import { Highlight } from '@/services/highlightService';
+
+export interface HighlightsDrawerProps {
+  visible: boolean;
+  highlights: Highlight[];
+  /** Highlight to start editing, e.g. when a mark in the article was tapped */
+  focusedId?: string | null;
+  onUpdateNote: (highlightId: string, note: string) => Promise<void>;
+  onDelete: (highlightId: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function HighlightsDrawer({
+  visible,
+  highlights,
+  focusedId,
+  onUpdateNote,
+  onDelete,
+  onClose,
+}: HighlightsDrawerProps) {
+  const insets = useSafeAreaInsets();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftNote, setDraftNote] = useState('');
+
+  useEffect(() => {
+    if (!visible) {
+      setEditingId(null);
+      return;
+    }
+    if (focusedId) {
+      const focused = highlights.find((highlight) => highlight.id === focusedId);
+      setEditingId(focusedId);
+      setDraftNote(focused?.note || '');
+    }
+  }, [visible, focusedId]);
+
+  const startEditing = (highlight: Highlight) => {
+    setEditingId(highlight.id);
+    setDraftNote(highlight.note || '');
+  };
+
+  const saveNote = async (highlight: Highlight) => {
+    setEditingId(null);
+    if ((highlight.note || '') === draftNote.trim()) return;
+
+    try {
+      await onUpdateNote(highlight.id, draftNote);
+    } catch {
+      Alert.alert('Error', 'Failed to save note. Please try again.');
+    }
+  };
+
+  const confirmDelete = (highlight: Highlight) => {
+    Alert.alert(
+      'Delete Highlight',
+      'Remove this highlight and its note?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+              await onDelete(highlight.id);
+            } catch {
+              Alert.alert('Error', 'Failed to delete highlight. Please try again.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        <Pressable style={styles.backdrop} onPress={onClose} />
+        <View style={[styles.sheet, { paddingBottom: insets.bottom + 16 }]}>
+          <View style={styles.handle} />
+
+          <View style={styles.headerRow}>
+            <Text style={styles.title}>
+              Highlights{highlights.length > 0 ? ` (${highlights.length})` : ''}
+            </Text>
+            <Pressable onPress={onClose} hitSlop={8} accessibilityLabel="Close highlights">
+              <Ionicons name="close" size={24} color="#94B2C7" />
+            </Pressable>
+          </View>
+
+          {highlights.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="color-wand-outline" size={40} color="#94B2C7" />
+              <Text style={styles.emptyTitle}>No highlights yet</Text>
+              <Text style={styles.emptyText}>
+                Long-press a paragraph in the article to highlight it and add a note.
+              </Text>
+            </View>
+          ) : (
+            <ScrollView
+              style={styles.list}
+              keyboardShouldPersistTaps="handled"
+              showsVerticalScrollIndicator={false}
+            >
+              {highlights.map((highlight) => {
+                const isEditing = editingId === highlight.id;
+                return (
+                  <View key={highlight.id} style={styles.highlightItem}>
+                    <Text style={styles.quote}>{highlight.text}</Text>
+
+                    {/* Note */}
+                    {isEditing ? (
+                      <TextInput
+                        style={styles.noteInput}
+                        value={draftNote}
+                        onChangeText={setDraftNote}
+                        placeholder="Add a note"
+                        placeholderTextColor="#5C7A8F"
+                        multiline
+                        autoFocus
+                        maxLength={1000}
+                      />
+                    ) : highlight.note ? (
+                      <Pressable onPress={() => startEditing(highlight)}>
+                        <Text style={styles.note}>{highlight.note}</Text>
+                      </Pressable>
+                    ) : null}
+
+                    <View style={styles.itemFooter}>
+                      <Text style={styles.date}>
+                        {highlight.createdAt.toLocaleDateString('en-US', {
+                          month: 'short',
+                          day: 'numeric',
+                          year: 'numeric',
+                        })}
+                      </Text>
+                      <View style={styles.itemActions}>
+                        <Pressable
+                          onPress={() => (isEditing ? saveNote(highlight) : startEditing(highlight))}
+                          hitSlop={8}
+                          accessibilityLabel={isEditing ? 'Save note' : 'Edit note'}
+                        >
+                          <Ionicons
+                            name={isEditing ? 'checkmark' : 'create-outline'}
+                            size={20}
+                            color="#94B2C7"
+                          />
+                        </Pressable>
+                        <Pressable
+                          onPress={() => confirmDelete(highlight)}
+                          hitSlop={8}
+                          accessibilityLabel="Delete highlight"
+                        >
+                          <Ionicons name="trash-outline" size={20} color="#FF6B6B" />
+                        </Pressable>
+                      </View>
+                    </View>
+                  </View>
+                );
+              })}
+            </ScrollView>
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '75%',
+    backgroundColor: '#1A2730',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderColor: '#243847',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#243847',
+    marginBottom: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  title: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 18,
+    color: '#FFFFFF',
+  },
+  list: {
+    flexGrow: 0,
+  },
+  highlightItem: {
+    backgroundColor: '#121C21',
+    borderRadius: 12,
+    borderLeftWidth: 3,
+    borderLeftColor: '#F2C94C',
+    padding: 14,
+    marginBottom: 12,
+  },
+  quote: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#E8E8E8',
+  },
+  note: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontStyle: 'italic',
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#94B2C7',
+    marginTop: 10,
+  },
+  noteInput: {
+    marginTop: 10,
+    backgroundColor: '#1A2730',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#243847',
+    padding: 10,
+    fontFamily: 'System',
+    fontSize: 14,
+    color: '#FFFFFF',
+    textAlignVertical: 'top',
+  },
+  itemFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  date: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 12,
+    color: '#5C7A8F',
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 32,
+    paddingHorizontal: 16,
+  },
+  emptyTitle: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 16,
+    color: '#FFFFFF',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  emptyText: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#94B2C7',
+    textAlign: 'center',
+  },
+});
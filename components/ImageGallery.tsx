@@ -0,0 +1,309 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  Pressable,
+  Modal,
+  FlatList,
+  Alert,
+  ActivityIndicator,
+  useWindowDimensions,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import Animated, { useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+import { scheduleOnRN } from 'react-native-worklets';
+import { Image } from 'expo-image';
+import * as Sharing from 'expo-sharing';
+import * as Haptics from 'expo-haptics';
+import { Ionicons } from '@expo/vector-icons';
+import { ArticleImage } from '@/services/articleMarkup';
+
+export interface ImageGalleryProps {
+  images: ArticleImage[];
+  /** Image to open at; the gallery is hidden while this is null */
+  initialIndex: number | null;
+  onClose: () => void;
+}
+
+const MAX_ZOOM = 4;
+const DOUBLE_TAP_ZOOM = 2.5;
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+function getMimeType(uri: string): string {
+  const extension = uri.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+  return MIME_TYPES[extension] || 'image/jpeg';
+}
+
+/**
+ * Full-size image with pinch to zoom, pan while zoomed and double tap to
+ * toggle zoom. Reports when it's zoomed so the gallery can stop paging.
+ */
+function ZoomableImage({
+  uri,
+  width,
+  height,
+  zoomed,
+  onZoomChange,
+}: {
+  uri: string;
+  width: number;
+  height: number;
+  zoomed: boolean;
+  onZoomChange: (zoomed: boolean) => void;
+}) {
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const reset = () => {
+    'worklet';
+    scale.value = withTiming(1);
+    savedScale.value = 1;
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+    scheduleOnRN(onZoomChange, false);
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((event) => {
+      scale.value = Math.min(Math.max(savedScale.value * event.scale, 1), MAX_ZOOM);
+    })
+    .onEnd(() => {
+      if (scale.value <= 1.01) {
+        reset();
+      } else {
+        savedScale.value = scale.value;
+        scheduleOnRN(onZoomChange, true);
+      }
+    });
+
+  // Only enabled while zoomed, so at normal size swipes page the gallery
+  const pan = Gesture.Pan()
+    .enabled(zoomed)
+    .averageTouches(true)
+    .onUpdate((event) => {
+      const maxX = (width * (scale.value - 1)) / 2;
+      const maxY = (height * (scale.value - 1)) / 2;
+      translateX.value = Math.min(Math.max(savedTranslateX.value + event.translationX, -maxX), maxX);
+      translateY.value = Math.min(Math.max(savedTranslateY.value + event.translationY, -maxY), maxY);
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      if (savedScale.value > 1) {
+        reset();
+      } else {
+        scale.value = withTiming(DOUBLE_TAP_ZOOM);
+        savedScale.value = DOUBLE_TAP_ZOOM;
+        scheduleOnRN(onZoomChange, true);
+      }
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  return (
+    <GestureDetector gesture={Gesture.Simultaneous(pinch, pan, doubleTap)}>
+      <Animated.View style={[{ width, height }, animatedStyle]}>
+        <Image
+          source={{ uri }}
+          style={StyleSheet.absoluteFill}
+          contentFit="contain"
+          cachePolicy="memory-disk"
+        />
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+/**
+ * Full-screen viewer for the images in an article. Swipe between images,
+ * pinch to zoom, and share or save the current one.
+ */
+export default function ImageGallery({ images, initialIndex, onClose }: ImageGalleryProps) {
+  const insets = useSafeAreaInsets();
+  const { width, height } = useWindowDimensions();
+  const listRef = useRef<FlatList<ArticleImage>>(null);
+  const [currentIndex, setCurrentIndex] = useState(initialIndex ?? 0);
+  const [zoomed, setZoomed] = useState(false);
+  const [sharing, setSharing] = useState(false);
+
+  useEffect(() => {
+    if (initialIndex !== null) {
+      setCurrentIndex(initialIndex);
+      setZoomed(false);
+    }
+  }, [initialIndex]);
+
+  if (initialIndex === null || images.length === 0) return null;
+
+  const current = images[currentIndex] || images[0];
+
+  const handleShare = async () => {
+    if (sharing) return;
+
+    try {
+      setSharing(true);
+      if (!(await Sharing.isAvailableAsync())) {
+        Alert.alert('Sharing Unavailable', 'Sharing is not available on this device.');
+        return;
+      }
+
+      // Share the copy expo-image already cached; the share sheet also offers saving it
+      await Image.prefetch(current.uri, 'disk');
+      const path = await Image.getCachePathAsync(current.uri);
+      if (!path) {
+        throw new Error('Image is not cached');
+      }
+
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      await Sharing.shareAsync(path.startsWith('file://') ? path : `file://${path}`, {
+        mimeType: getMimeType(current.uri),
+        UTI: 'public.image',
+        dialogTitle: current.caption || 'Share image',
+      });
+    } catch (error) {
+      console.error('Error sharing image:', error);
+      Alert.alert('Error', 'Failed to share image. Please try again.');
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible
+      animationType="fade"
+      onRequestClose={onClose}
+      statusBarTranslucent
+      supportedOrientations={['portrait', 'landscape']}
+    >
+      <GestureHandlerRootView style={styles.container}>
+        <FlatList
+          ref={listRef}
+          data={images}
+          keyExtractor={(image) => String(image.index)}
+          horizontal
+          pagingEnabled
+          scrollEnabled={!zoomed}
+          extraData={zoomed}
+          showsHorizontalScrollIndicator={false}
+          initialScrollIndex={initialIndex}
+          getItemLayout={(_, index) => ({ length: width, offset: width * index, index })}
+          onMomentumScrollEnd={(event) => {
+            setCurrentIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+          }}
+          renderItem={({ item }) => (
+            <View style={[styles.page, { width, height }]}>
+              <ZoomableImage uri={item.uri} width={width} height={height} zoomed={zoomed} onZoomChange={setZoomed} />
+            </View>
+          )}
+        />
+
+        {/* Header */}
+        <View style={[styles.header, { paddingTop: insets.top + 8 }]}>
+          <Pressable style={styles.headerButton} onPress={onClose} accessibilityLabel="Close gallery">
+            <Ionicons name="close" size={26} color="#FFFFFF" />
+          </Pressable>
+          {images.length > 1 && (
+            <Text style={styles.counter}>{currentIndex + 1} / {images.length}</Text>
+          )}
+          <Pressable
+            style={styles.headerButton}
+            onPress={handleShare}
+            disabled={sharing}
+            accessibilityLabel="Share or save image"
+          >
+            {sharing ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Ionicons name="share-outline" size={24} color="#FFFFFF" />
+            )}
+          </Pressable>
+        </View>
+
+        {/* Caption */}
+        {(current.caption || current.alt) && !zoomed && (
+          <View style={[styles.captionContainer, { paddingBottom: insets.bottom + 16 }]}>
+            <Text style={styles.caption} numberOfLines={4}>{current.caption || current.alt}</Text>
+          </View>
+        )}
+      </GestureHandlerRootView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  page: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    overflow: 'hidden',
+  },
+  header: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  headerButton: {
+    width: 44,
+    height: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  counter: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 15,
+    color: '#FFFFFF',
+  },
+  captionContainer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  caption: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#E8E8E8',
+  },
+});
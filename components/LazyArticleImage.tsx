@@ -0,0 +1,111 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { StyleSheet, View, Pressable } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+import { ArticleImage } from '@/services/articleMarkup';
+
+/**
+ * How far down the article body (in px from its top) images should be
+ * loaded. The reader raises this as the user scrolls.
+ */
+export const ImageLoadAheadContext = createContext<number>(Infinity);
+
+// Used until the image's real size is known
+const DEFAULT_ASPECT_RATIO = 16 / 9;
+
+export interface LazyArticleImageProps {
+  image: ArticleImage;
+  /** Article body the image's offset is measured against */
+  bodyRef: React.RefObject<View | null>;
+  maxWidth: number;
+  placeholderColor: string;
+  iconColor: string;
+  onPress: (index: number) => void;
+}
+
+/**
+ * Article image that keeps a sized placeholder until it comes close to
+ * the screen, then fades in
+ */
+export default function LazyArticleImage({
+  image,
+  bodyRef,
+  maxWidth,
+  placeholderColor,
+  iconColor,
+  onPress,
+}: LazyArticleImageProps) {
+  const loadAhead = useContext(ImageLoadAheadContext);
+  const containerRef = useRef<View>(null);
+  const [offsetY, setOffsetY] = useState<number | null>(null);
+  const [active, setActive] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [naturalSize, setNaturalSize] = useState(
+    image.width && image.height ? { width: image.width, height: image.height } : null
+  );
+
+  const measure = useCallback(() => {
+    if (!containerRef.current || !bodyRef.current) return;
+    containerRef.current.measureLayout(bodyRef.current, (_x, y) => setOffsetY(y));
+  }, [bodyRef]);
+
+  // Once loaded, an image stays loaded
+  useEffect(() => {
+    if (!active && offsetY !== null && offsetY <= loadAhead) {
+      setActive(true);
+    }
+  }, [active, offsetY, loadAhead]);
+
+  const width = Math.min(maxWidth, naturalSize?.width || maxWidth);
+  const aspectRatio = naturalSize ? naturalSize.width / naturalSize.height : DEFAULT_ASPECT_RATIO;
+
+  return (
+    <Pressable
+      ref={containerRef}
+      onLayout={measure}
+      onPress={() => onPress(image.index)}
+      disabled={!loaded}
+      style={[styles.container, { width, aspectRatio, backgroundColor: placeholderColor }]}
+      accessibilityRole="imagebutton"
+      accessibilityLabel={image.alt || image.caption || 'Article image'}
+      accessibilityHint="Opens the image full screen"
+    >
+      {!loaded && (
+        <View style={styles.placeholder}>
+          <Ionicons name={failed ? 'alert-circle-outline' : 'image-outline'} size={32} color={iconColor} />
+        </View>
+      )}
+      {active && !failed && (
+        <Image
+          source={{ uri: image.uri }}
+          style={StyleSheet.absoluteFill}
+          contentFit="contain"
+          transition={200}
+          cachePolicy="memory-disk"
+          onLoad={(event) => {
+            setLoaded(true);
+            if (!naturalSize && event.source.width && event.source.height) {
+              setNaturalSize({ width: event.source.width, height: event.source.height });
+            }
+          }}
+          onError={() => setFailed(true)}
+        />
+      )}
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: 'center',
+    marginVertical: 20,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  placeholder: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
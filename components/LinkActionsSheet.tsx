@@ -0,0 +1,280 @@
+import { useEffect, useState } from 'react';
+import { StyleSheet, View, Text, Pressable, Modal, ActivityIndicator } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import * as Clipboard from 'expo-clipboard';
+import * as WebBrowser from 'expo-web-browser';
+import { LinkPreview, getLinkPreview } from '@/services/articleService';
+import { useBookmarks } from '@/contexts/BookmarkContext';
+
+export interface LinkActionsSheetProps {
+  /** Link to act on; the sheet is hidden while this is null */
+  url: string | null;
+  /** Show the title and excerpt card (long-press) rather than just the URL */
+  showPreview: boolean;
+  onClose: () => void;
+}
+
+interface ActionRowProps {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  onPress: () => void;
+  disabled?: boolean;
+  active?: boolean;
+}
+
+function ActionRow({ icon, label, onPress, disabled, active }: ActionRowProps) {
+  return (
+    <Pressable
+      style={({ pressed }) => [styles.actionRow, pressed && styles.actionRowPressed]}
+      onPress={onPress}
+      disabled={disabled}
+      accessibilityRole="button"
+    >
+      <Ionicons name={icon} size={22} color={active ? '#4A9EFF' : '#FFFFFF'} />
+      <Text style={[styles.actionLabel, disabled && styles.actionLabelDisabled]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+/**
+ * Actions for a link tapped inside an article: read it in the reader,
+ * open it in an in-app browser, copy it, or bookmark it
+ */
+export default function LinkActionsSheet({ url, showPreview, onClose }: LinkActionsSheetProps) {
+  const insets = useSafeAreaInsets();
+  const router = useRouter();
+  const { isBookmarked, toggleBookmark } = useBookmarks();
+  const [preview, setPreview] = useState<LinkPreview | null>(null);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+
+  // The preview also supplies the title and id needed to bookmark the link
+  useEffect(() => {
+    if (!url) return;
+    let cancelled = false;
+
+    setPreview(null);
+    setLoadingPreview(true);
+    getLinkPreview(url)
+      .then((result) => {
+        if (!cancelled) setPreview(result);
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingPreview(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  if (!url) return null;
+
+  const bookmarked = preview ? isBookmarked(preview.contentId) : false;
+
+  const handleOpenInReader = () => {
+    onClose();
+    router.push({
+      pathname: '/reader',
+      params: {
+        url,
+        title: preview?.title || '',
+        // Only catalog articles carry an id, so reads of other pages don't
+        // reach the recommender
+        ...(preview?.inCatalog && { contentId: preview.contentId }),
+      },
+    });
+  };
+
+  const handleOpenInBrowser = async () => {
+    onClose();
+    try {
+      await WebBrowser.openBrowserAsync(url);
+    } catch (error) {
+      console.error('Error opening in-app browser:', error);
+    }
+  };
+
+  const handleCopy = async () => {
+    await Clipboard.setStringAsync(url);
+    await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onClose();
+  };
+
+  const handleBookmark = async () => {
+    if (!preview) return;
+
+    try {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      await toggleBookmark({
+        contentId: preview.contentId,
+        title: preview.title,
+        url,
+        excerpt: preview.excerpt,
+        tags: preview.tags,
+      });
+    } catch (error) {
+      console.error('Error bookmarking link:', error);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  return (
+    <Modal
+      visible
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={[styles.sheet, { paddingBottom: insets.bottom + 16 }]}>
+        <View style={styles.handle} />
+
+        {/* Preview */}
+        {showPreview ? (
+          <View style={styles.previewCard}>
+            {loadingPreview ? (
+              <View style={styles.previewLoading}>
+                <ActivityIndicator size="small" color="#94B2C7" />
+                <Text style={styles.previewLoadingText}>Loading preview...</Text>
+              </View>
+            ) : preview ? (
+              <>
+                {preview.siteName && (
+                  <Text style={styles.previewSite} numberOfLines={1}>{preview.siteName}</Text>
+                )}
+                <Text style={styles.previewTitle} numberOfLines={3}>{preview.title}</Text>
+                {preview.excerpt && (
+                  <Text style={styles.previewExcerpt} numberOfLines={4}>{preview.excerpt}</Text>
+                )}
+              </>
+            ) : null}
+          </View>
+        ) : (
+          <View style={styles.urlRow}>
+            <Ionicons name="link-outline" size={18} color="#94B2C7" />
+            <Text style={styles.urlText} numberOfLines={2}>{url}</Text>
+          </View>
+        )}
+
+        {/* Actions */}
+        <ActionRow icon="reader-outline" label="Open in Reader" onPress={handleOpenInReader} />
+        <ActionRow icon="globe-outline" label="Open in Browser" onPress={handleOpenInBrowser} />
+        <ActionRow icon="copy-outline" label="Copy Link" onPress={handleCopy} />
+        <ActionRow
+          icon={bookmarked ? 'bookmark' : 'bookmark-outline'}
+          label={bookmarked ? 'Remove from Saved' : 'Save to Bookmarks'}
+          onPress={handleBookmark}
+          disabled={!preview}
+          active={bookmarked}
+        />
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#1A2730',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderColor: '#243847',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#243847',
+    marginBottom: 12,
+  },
+  urlRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingBottom: 12,
+    marginBottom: 4,
+    borderBottomWidth: 1,
+    borderBottomColor: '#243847',
+  },
+  urlText: {
+    flex: 1,
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 13,
+    color: '#94B2C7',
+  },
+  previewCard: {
+    backgroundColor: '#121C21',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#243847',
+    padding: 16,
+    marginBottom: 8,
+  },
+  previewLoading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+  },
+  previewLoadingText: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 14,
+    color: '#94B2C7',
+  },
+  previewSite: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 12,
+    color: '#4A9EFF',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 6,
+  },
+  previewTitle: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 17,
+    lineHeight: 23,
+    color: '#FFFFFF',
+  },
+  previewExcerpt: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#94B2C7',
+    marginTop: 8,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    paddingVertical: 14,
+    paddingHorizontal: 4,
+    borderRadius: 10,
+  },
+  actionRowPressed: {
+    backgroundColor: '#243847',
+  },
+  actionLabel: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  actionLabelDisabled: {
+    color: '#5C7A8F',
+  },
+});
@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { StyleSheet, View, Text, ActivityIndicator } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { Ionicons } from '@expo/vector-icons';
+
+export interface OriginalPageViewProps {
+  url: string;
+  /** Space to leave above the page for the floating buttons */
+  topInset: number;
+  /** Scroll progress through the page, 0–100 */
+  onProgress: (progress: number) => void;
+}
+
+// Reports how far the page has been scrolled. Pages that fit on screen
+// count as fully read.
+const SCROLL_REPORTER = `
+(function () {
+  var lastSent = -1;
+  function report() {
+    var doc = document.documentElement;
+    var scrollable = Math.max(doc.scrollHeight, document.body.scrollHeight) - window.innerHeight;
+    var progress = scrollable <= 0 ? 100 : Math.min(Math.max((window.scrollY / scrollable) * 100, 0), 100);
+    if (Math.abs(progress - lastSent) < 1 && progress !== 100) return;
+    lastSent = progress;
+    window.ReactNativeWebView.postMessage(JSON.stringify({ type: 'scroll', progress: progress }));
+  }
+  window.addEventListener('scroll', report, { passive: true });
+  window.addEventListener('load', report);
+  report();
+})();
+true;
+`;
+
+/**
+ * The article's source page, for when it can't be parsed into reader view
+ */
+export default function OriginalPageView({ url, topInset, onProgress }: OriginalPageViewProps) {
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    try {
+      const message = JSON.parse(event.nativeEvent.data);
+      if (message.type === 'scroll' && typeof message.progress === 'number') {
+        onProgress(message.progress);
+      }
+    } catch {
+      // Messages posted by the page itself aren't ours
+    }
+  };
+
+  if (failed) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="cloud-offline-outline" size={48} color="#FF6B6B" />
+        <Text style={styles.errorText}>The original page couldn&apos;t be loaded.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { paddingTop: topInset }]}>
+      <WebView
+        source={{ uri: url }}
+        style={styles.webView}
+        injectedJavaScript={SCROLL_REPORTER}
+        onMessage={handleMessage}
+        onLoadEnd={() => setLoading(false)}
+        onError={(event) => {
+          console.error('Error loading original page:', event.nativeEvent.description);
+          setFailed(true);
+        }}
+        allowsBackForwardNavigationGestures
+        setSupportMultipleWindows={false}
+      />
+      {loading && (
+        <View style={styles.loadingOverlay} pointerEvents="none">
+          <ActivityIndicator size="large" color="#FFFFFF" />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  webView: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  loadingOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#121C21',
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 32,
+    gap: 16,
+  },
+  errorText: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#94B2C7',
+    textAlign: 'center',
+  },
+});
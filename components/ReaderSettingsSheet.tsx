@@ -0,0 +1,346 @@
+import { StyleSheet, View, Text, Pressable, Modal, Switch } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import {
+  ReaderSettings,
+  ReaderThemeName,
+  READER_THEMES,
+  READER_FONT_FAMILIES,
+  READER_FONT_SIZE_MIN,
+  READER_FONT_SIZE_MAX,
+} from '@/constants/readerTheme';
+
+export interface ReaderSettingsSheetProps {
+  visible: boolean;
+  settings: ReaderSettings;
+  onChange: (settings: ReaderSettings) => void;
+  onClose: () => void;
+}
+
+interface SegmentOption<T extends string> {
+  value: T;
+  label: string;
+}
+
+const FONT_SIZE_STEP = 2;
+
+const THEME_OPTIONS: SegmentOption<ReaderThemeName>[] = [
+  { value: 'dark', label: 'Dark' },
+  { value: 'sepia', label: 'Sepia' },
+  { value: 'light', label: 'Light' },
+];
+
+const FONT_OPTIONS: SegmentOption<ReaderSettings['fontFamily']>[] = [
+  { value: 'sans', label: 'Sans' },
+  { value: 'serif', label: 'Serif' },
+];
+
+const LINE_HEIGHT_OPTIONS: SegmentOption<ReaderSettings['lineHeight']>[] = [
+  { value: 'compact', label: 'Compact' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'relaxed', label: 'Relaxed' },
+];
+
+const MARGIN_OPTIONS: SegmentOption<ReaderSettings['margin']>[] = [
+  { value: 'narrow', label: 'Narrow' },
+  { value: 'normal', label: 'Normal' },
+  { value: 'wide', label: 'Wide' },
+];
+
+function Segmented<T extends string>({
+  options,
+  value,
+  onSelect,
+  fontFamilyFor,
+}: {
+  options: SegmentOption<T>[];
+  value: T;
+  onSelect: (value: T) => void;
+  fontFamilyFor?: (value: T) => string;
+}) {
+  return (
+    <View style={styles.segmented}>
+      {options.map((option) => (
+        <Pressable
+          key={option.value}
+          style={[styles.segment, value === option.value && styles.segmentActive]}
+          onPress={() => onSelect(option.value)}
+        >
+          <Text
+            style={[
+              styles.segmentText,
+              value === option.value && styles.segmentTextActive,
+              fontFamilyFor && { fontFamily: fontFamilyFor(option.value) },
+            ]}
+          >
+            {option.label}
+          </Text>
+        </Pressable>
+      ))}
+    </View>
+  );
+}
+
+export default function ReaderSettingsSheet({
+  visible,
+  settings,
+  onChange,
+  onClose,
+}: ReaderSettingsSheetProps) {
+  const insets = useSafeAreaInsets();
+
+  const update = <K extends keyof ReaderSettings>(key: K, value: ReaderSettings[K]) => {
+    if (settings[key] === value) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onChange({ ...settings, [key]: value });
+  };
+
+  const changeFontSize = (delta: number) => {
+    const fontSize = Math.min(
+      READER_FONT_SIZE_MAX,
+      Math.max(READER_FONT_SIZE_MIN, settings.fontSize + delta)
+    );
+    update('fontSize', fontSize);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={[styles.sheet, { paddingBottom: insets.bottom + 16 }]}>
+        <View style={styles.handle} />
+
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>Reading Settings</Text>
+          <Pressable onPress={onClose} hitSlop={8} accessibilityLabel="Close reading settings">
+            <Ionicons name="close" size={24} color="#94B2C7" />
+          </Pressable>
+        </View>
+
+        {/* Theme */}
+        <View style={styles.themeRow}>
+          {THEME_OPTIONS.map((option) => {
+            const palette = READER_THEMES[option.value];
+            const selected = settings.theme === option.value;
+            return (
+              <Pressable
+                key={option.value}
+                style={[
+                  styles.themeOption,
+                  { backgroundColor: palette.background, borderColor: palette.border },
+                  selected && styles.themeOptionActive,
+                ]}
+                onPress={() => update('theme', option.value)}
+                accessibilityLabel={`${option.label} theme`}
+                accessibilityState={{ selected }}
+              >
+                <Text style={[styles.themeOptionText, { color: palette.text }]}>Aa</Text>
+                <Text style={[styles.themeOptionLabel, { color: palette.muted }]}>{option.label}</Text>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {/* Font Size */}
+        <View style={styles.settingRow}>
+          <Text style={styles.settingLabel}>Text size</Text>
+          <View style={styles.stepper}>
+            <Pressable
+              style={styles.stepperButton}
+              onPress={() => changeFontSize(-FONT_SIZE_STEP)}
+              disabled={settings.fontSize <= READER_FONT_SIZE_MIN}
+              accessibilityLabel="Decrease text size"
+            >
+              <Text style={[styles.stepperText, { fontSize: 14 }]}>A</Text>
+            </Pressable>
+            <Text style={styles.stepperValue}>{settings.fontSize}</Text>
+            <Pressable
+              style={styles.stepperButton}
+              onPress={() => changeFontSize(FONT_SIZE_STEP)}
+              disabled={settings.fontSize >= READER_FONT_SIZE_MAX}
+              accessibilityLabel="Increase text size"
+            >
+              <Text style={[styles.stepperText, { fontSize: 22 }]}>A</Text>
+            </Pressable>
+          </View>
+        </View>
+
+        {/* Font */}
+        <Text style={styles.sectionLabel}>Font</Text>
+        <Segmented
+          options={FONT_OPTIONS}
+          value={settings.fontFamily}
+          onSelect={(value) => update('fontFamily', value)}
+          fontFamilyFor={(value) => READER_FONT_FAMILIES[value]}
+        />
+
+        {/* Line Height */}
+        <Text style={styles.sectionLabel}>Line spacing</Text>
+        <Segmented
+          options={LINE_HEIGHT_OPTIONS}
+          value={settings.lineHeight}
+          onSelect={(value) => update('lineHeight', value)}
+        />
+
+        {/* Margins */}
+        <Text style={styles.sectionLabel}>Margins</Text>
+        <Segmented
+          options={MARGIN_OPTIONS}
+          value={settings.margin}
+          onSelect={(value) => update('margin', value)}
+        />
+
+        {/* Justify */}
+        <View style={styles.settingRow}>
+          <Text style={styles.settingLabel}>Justify text</Text>
+          <Switch
+            value={settings.justify}
+            onValueChange={(value) => update('justify', value)}
+            trackColor={{ false: '#243847', true: '#5C80FF' }}
+            thumbColor="#FFFFFF"
+          />
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#1A2730',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderColor: '#243847',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#243847',
+    marginBottom: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 16,
+  },
+  title: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 18,
+    color: '#FFFFFF',
+  },
+  themeRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 8,
+  },
+  themeOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+  },
+  themeOptionActive: {
+    borderColor: '#4A9EFF',
+  },
+  themeOptionText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 20,
+  },
+  themeOptionLabel: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 12,
+    marginTop: 2,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  settingLabel: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 16,
+    color: '#FFFFFF',
+  },
+  sectionLabel: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 13,
+    color: '#94B2C7',
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#121C21',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#243847',
+  },
+  stepperButton: {
+    width: 48,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  stepperValue: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 14,
+    color: '#94B2C7',
+    minWidth: 28,
+    textAlign: 'center',
+  },
+  segmented: {
+    flexDirection: 'row',
+    backgroundColor: '#121C21',
+    borderRadius: 12,
+    padding: 4,
+    borderWidth: 1,
+    borderColor: '#243847',
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  segmentActive: {
+    backgroundColor: '#243847',
+  },
+  segmentText: {
+    fontFamily: 'System',
+    fontWeight: '600',
+    fontSize: 13,
+    color: '#94B2C7',
+  },
+  segmentTextActive: {
+    color: '#FFFFFF',
+  },
+});
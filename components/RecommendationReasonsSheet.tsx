@@ -0,0 +1,172 @@
+import { StyleSheet, View, Text, Pressable, Modal } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { RecommendationItem, RecommendationReason } from '@/services/recommendationService';
+
+export interface RecommendationReasonsSheetProps {
+  /** Article to explain; the sheet is hidden while this is null */
+  item: RecommendationItem | null;
+  /** Recommender the feed came from, used when the item has no reasons */
+  source: 'gorse' | 'fallback';
+  onClose: () => void;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+function formatPublished(publishedAt: string): string {
+  const days = Math.floor((Date.now() - new Date(publishedAt).getTime()) / (1000 * 60 * 60 * 24));
+  if (days <= 0) return 'Published today';
+  if (days === 1) return 'Published yesterday';
+  return `Published ${days} days ago`;
+}
+
+function describeReason(reason: RecommendationReason): { icon: keyof typeof Ionicons.glyphMap; text: string } {
+  switch (reason.kind) {
+    case 'interest_match':
+      return {
+        icon: 'pricetags-outline',
+        text: `Matches your interest${reason.matchedTags.length > 1 ? 's' : ''} in ${reason.matchedTags.map(capitalize).join(', ')}`,
+      };
+    case 'similar_to_liked':
+      return {
+        icon: 'heart-outline',
+        text: `Similar to "${reason.similarTo.title}", which you liked`,
+      };
+    case 'trending':
+      return {
+        icon: 'trending-up',
+        text: 'Popular with other readers right now',
+      };
+    case 'recent':
+      return {
+        icon: 'time-outline',
+        text: formatPublished(reason.publishedAt),
+      };
+  }
+}
+
+/**
+ * "Why am I seeing this?" for a feed card: the reasons the recommender
+ * gave for picking the article
+ */
+export default function RecommendationReasonsSheet({ item, source, onClose }: RecommendationReasonsSheetProps) {
+  const insets = useSafeAreaInsets();
+
+  if (!item) return null;
+
+  const reasons = item.reasons ?? [];
+  const matchPercent = Math.min(Math.round(item.score * 100), 100);
+
+  return (
+    <Modal
+      visible
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={[styles.sheet, { paddingBottom: insets.bottom + 16 }]}>
+        <View style={styles.handle} />
+
+        <View style={styles.header}>
+          <Text style={styles.headerTitle}>Why am I seeing this?</Text>
+          <Pressable onPress={onClose} hitSlop={8} accessibilityLabel="Close">
+            <Ionicons name="close" size={24} color="#94B2C7" />
+          </Pressable>
+        </View>
+
+        <Text style={styles.articleTitle} numberOfLines={2}>{item.title}</Text>
+
+        {reasons.length > 0 ? (
+          reasons.map((reason) => {
+            const { icon, text } = describeReason(reason);
+            return (
+              <View key={reason.kind} style={styles.reasonRow}>
+                <Ionicons name={icon} size={20} color="#4A9EFF" />
+                <Text style={styles.reasonText}>{text}</Text>
+              </View>
+            );
+          })
+        ) : (
+          <View style={styles.reasonRow}>
+            <Ionicons name="sparkles-outline" size={20} color="#4A9EFF" />
+            <Text style={styles.reasonText}>
+              {source === 'gorse'
+                ? 'Picked from what you and readers like you have enjoyed'
+                : 'One of the newest articles in your topics'}
+            </Text>
+          </View>
+        )}
+
+        <Text style={styles.footnote}>
+          {matchPercent}% match · {source === 'gorse' ? 'Personalized ranking' : 'Ranked by your interests while we learn what you like'}
+        </Text>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    backgroundColor: '#1A2730',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderColor: '#243847',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#243847',
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  headerTitle: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 18,
+    color: '#FFFFFF',
+  },
+  articleTitle: {
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#94B2C7',
+    marginBottom: 12,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+    paddingVertical: 10,
+  },
+  reasonText: {
+    flex: 1,
+    fontFamily: 'System',
+    fontWeight: '500',
+    fontSize: 15,
+    lineHeight: 21,
+    color: '#FFFFFF',
+  },
+  footnote: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 12,
+    color: '#5C7A8F',
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,147 @@
+import { StyleSheet, View, Text, Pressable, Modal, ScrollView } from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { TocEntry } from '@/services/articleMarkup';
+
+export interface TableOfContentsDrawerProps {
+  visible: boolean;
+  entries: TocEntry[];
+  /** Index of the section currently on screen, or -1 before the first heading */
+  currentIndex: number;
+  onSelect: (entry: TocEntry) => void;
+  onClose: () => void;
+}
+
+// Indent sub-headings relative to the article's top heading level
+const INDENT_PER_LEVEL = 16;
+
+export default function TableOfContentsDrawer({
+  visible,
+  entries,
+  currentIndex,
+  onSelect,
+  onClose,
+}: TableOfContentsDrawerProps) {
+  const insets = useSafeAreaInsets();
+  const topLevel = entries.reduce((min, entry) => Math.min(min, entry.level), 4);
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <Pressable style={styles.backdrop} onPress={onClose} />
+      <View style={[styles.sheet, { paddingBottom: insets.bottom + 16 }]}>
+        <View style={styles.handle} />
+
+        <View style={styles.headerRow}>
+          <Text style={styles.title}>Contents</Text>
+          <Pressable onPress={onClose} hitSlop={8} accessibilityLabel="Close contents">
+            <Ionicons name="close" size={24} color="#94B2C7" />
+          </Pressable>
+        </View>
+
+        <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+          {entries.map((entry) => {
+            const isCurrent = entry.index === currentIndex;
+            return (
+              <Pressable
+                key={entry.index}
+                style={({ pressed }) => [
+                  styles.entry,
+                  { paddingLeft: 12 + (entry.level - topLevel) * INDENT_PER_LEVEL },
+                  isCurrent && styles.entryCurrent,
+                  pressed && styles.entryPressed,
+                ]}
+                onPress={() => onSelect(entry)}
+                accessibilityRole="button"
+                accessibilityState={{ selected: isCurrent }}
+              >
+                <Text
+                  style={[
+                    styles.entryText,
+                    entry.level === topLevel && styles.entryTextTopLevel,
+                    isCurrent && styles.entryTextCurrent,
+                  ]}
+                  numberOfLines={2}
+                >
+                  {entry.title}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '70%',
+    backgroundColor: '#1A2730',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderColor: '#243847',
+  },
+  handle: {
+    alignSelf: 'center',
+    width: 40,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#243847',
+    marginBottom: 12,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontFamily: 'System',
+    fontWeight: '700',
+    fontSize: 18,
+    color: '#FFFFFF',
+  },
+  list: {
+    flexGrow: 0,
+  },
+  entry: {
+    paddingVertical: 12,
+    paddingRight: 12,
+    borderRadius: 10,
+    borderLeftWidth: 3,
+    borderLeftColor: 'transparent',
+  },
+  entryCurrent: {
+    backgroundColor: '#243847',
+    borderLeftColor: '#4A9EFF',
+  },
+  entryPressed: {
+    backgroundColor: '#243847',
+  },
+  entryText: {
+    fontFamily: 'System',
+    fontWeight: '400',
+    fontSize: 15,
+    lineHeight: 21,
+    color: '#94B2C7',
+  },
+  entryTextTopLevel: {
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  entryTextCurrent: {
+    color: '#4A9EFF',
+  },
+});
@@ -0,0 +1,269 @@
+/**
+ * Reader typography and colour themes. `buildTagsStyles` turns the user's
+ * reader settings into the tag styles passed to RenderHTML.
+ */
+
+import { Platform } from 'react-native';
+import type { MixedStyleRecord } from 'react-native-render-html';
+
+export type ReaderThemeName = 'dark' | 'sepia' | 'light';
+export type ReaderFontFamily = 'sans' | 'serif';
+export type ReaderLineHeight = 'compact' | 'normal' | 'relaxed';
+export type ReaderMargin = 'narrow' | 'normal' | 'wide';
+
+export interface ReaderSettings {
+  fontSize: number;
+  lineHeight: ReaderLineHeight;
+  fontFamily: ReaderFontFamily;
+  margin: ReaderMargin;
+  theme: ReaderThemeName;
+  justify: boolean;
+}
+
+export interface ReaderPalette {
+  background: string;
+  surface: string;
+  text: string;
+  heading: string;
+  muted: string;
+  quote: string;
+  link: string;
+  border: string;
+  highlight: string;
+  statusBar: 'light' | 'dark';
+}
+
+export const DEFAULT_READER_SETTINGS: ReaderSettings = {
+  fontSize: 18,
+  lineHeight: 'normal',
+  fontFamily: 'sans',
+  margin: 'normal',
+  theme: 'dark',
+  justify: false,
+};
+
+export const READER_FONT_SIZE_MIN = 14;
+export const READER_FONT_SIZE_MAX = 28;
+
+export const READER_THEMES: Record<ReaderThemeName, ReaderPalette> = {
+  dark: {
+    background: '#121C21',
+    surface: '#1A2730',
+    text: '#E8E8E8',
+    heading: '#FFFFFF',
+    muted: '#94B2C7',
+    quote: '#B0B0B0',
+    link: '#5BA3FF',
+    border: '#243847',
+    highlight: '#5C4A1A',
+    statusBar: 'light',
+  },
+  sepia: {
+    background: '#F4ECD8',
+    surface: '#EADFC6',
+    text: '#433422',
+    heading: '#2E2416',
+    muted: '#7A6A53',
+    quote: '#5F4E38',
+    link: '#A0522D',
+    border: '#D9CBAE',
+    highlight: '#F2D98A',
+    statusBar: 'dark',
+  },
+  light: {
+    background: '#FFFFFF',
+    surface: '#F2F4F6',
+    text: '#1F2328',
+    heading: '#0D1117',
+    muted: '#57606A',
+    quote: '#424A53',
+    link: '#0969DA',
+    border: '#D0D7DE',
+    highlight: '#FFF1A8',
+    statusBar: 'dark',
+  },
+};
+
+// Multiplier applied to the body font size
+const LINE_HEIGHT_RATIOS: Record<ReaderLineHeight, number> = {
+  compact: 1.45,
+  normal: 1.67,
+  relaxed: 1.9,
+};
+
+export const READER_MARGINS: Record<ReaderMargin, number> = {
+  narrow: 12,
+  normal: 20,
+  wide: 32,
+};
+
+export const READER_FONT_FAMILIES: Record<ReaderFontFamily, string> = {
+  sans: 'System',
+  serif: Platform.select({ ios: 'Georgia', default: 'serif' }),
+};
+
+/**
+ * Fill in any settings missing from a stored value (e.g. after new
+ * options are added) and clamp out-of-range numbers
+ */
+export function normalizeReaderSettings(stored?: Partial<ReaderSettings> | null): ReaderSettings {
+  const settings = { ...DEFAULT_READER_SETTINGS, ...(stored || {}) };
+
+  return {
+    ...settings,
+    fontSize: Math.min(READER_FONT_SIZE_MAX, Math.max(READER_FONT_SIZE_MIN, settings.fontSize)),
+    theme: READER_THEMES[settings.theme] ? settings.theme : DEFAULT_READER_SETTINGS.theme,
+  };
+}
+
+/**
+ * Build RenderHTML tag styles for the given settings. Headings and lists
+ * scale with the body size so the hierarchy stays intact.
+ */
+export function buildTagsStyles(settings: ReaderSettings): MixedStyleRecord {
+  const palette = READER_THEMES[settings.theme];
+  const fontSize = settings.fontSize;
+  const lineHeight = Math.round(fontSize * LINE_HEIGHT_RATIOS[settings.lineHeight]);
+  const fontFamily = READER_FONT_FAMILIES[settings.fontFamily];
+  const scale = (size: number) => Math.round((size / DEFAULT_READER_SETTINGS.fontSize) * fontSize);
+
+  const heading = (size: number, weight: '600' | '700', marginTop: number, marginBottom: number, headingLineHeight: number) => ({
+    color: palette.heading,
+    fontSize: scale(size),
+    fontWeight: weight,
+    marginTop: scale(marginTop),
+    marginBottom: scale(marginBottom),
+    lineHeight: scale(headingLineHeight),
+  });
+
+  return {
+    body: {
+      color: palette.text,
+      fontSize,
+      lineHeight,
+      fontFamily,
+      fontWeight: '400',
+    },
+    p: {
+      marginBottom: scale(20),
+      color: palette.text,
+      fontSize,
+      lineHeight,
+      textAlign: settings.justify ? 'justify' : 'left',
+    },
+    h1: heading(32, '700', 32, 16, 40),
+    h2: heading(26, '700', 28, 14, 34),
+    h3: heading(22, '600', 24, 12, 30),
+    h4: heading(20, '600', 20, 10, 28),
+    h5: heading(18, '600', 18, 8, 26),
+    h6: heading(16, '600', 16, 6, 24),
+    a: {
+      color: palette.link,
+      textDecorationLine: 'underline',
+      textDecorationColor: palette.link,
+    },
+    strong: {
+      color: palette.heading,
+      fontWeight: '700',
+    },
+    b: {
+      color: palette.heading,
+      fontWeight: '700',
+    },
+    em: {
+      fontStyle: 'italic',
+      color: palette.text,
+    },
+    i: {
+      fontStyle: 'italic',
+      color: palette.text,
+    },
+    blockquote: {
+      borderLeftWidth: 3,
+      borderLeftColor: palette.link,
+      paddingLeft: 20,
+      marginLeft: 0,
+      marginVertical: 20,
+      fontStyle: 'italic',
+      color: palette.quote,
+      backgroundColor: palette.surface,
+      paddingVertical: 12,
+      paddingRight: 16,
+      borderRadius: 4,
+    },
+    code: {
+      backgroundColor: palette.surface,
+      color: palette.link,
+      paddingHorizontal: 8,
+      paddingVertical: 3,
+      borderRadius: 4,
+      fontFamily: 'Courier',
+      fontSize: scale(16),
+    },
+    pre: {
+      backgroundColor: palette.surface,
+      padding: 16,
+      borderRadius: 8,
+      marginVertical: 16,
+    },
+    ul: {
+      marginVertical: 12,
+      paddingLeft: 24,
+    },
+    ol: {
+      marginVertical: 12,
+      paddingLeft: 24,
+    },
+    li: {
+      marginBottom: 10,
+      color: palette.text,
+      fontSize,
+      lineHeight: Math.round(lineHeight * 0.93),
+      textAlign: settings.justify ? 'justify' : 'left',
+    },
+    img: {
+      marginVertical: 20,
+      borderRadius: 12,
+      backgroundColor: palette.surface,
+    },
+    figure: {
+      marginVertical: 24,
+    },
+    figcaption: {
+      color: palette.muted,
+      fontSize: scale(14),
+      fontStyle: 'italic',
+      marginTop: 8,
+      textAlign: 'center',
+    },
+    mark: {
+      backgroundColor: palette.highlight,
+      color: palette.text,
+    },
+    hr: {
+      marginVertical: 24,
+      borderBottomWidth: 1,
+      borderBottomColor: palette.border,
+    },
+    table: {
+      marginVertical: 16,
+      borderWidth: 1,
+      borderColor: palette.border,
+      borderRadius: 8,
+    },
+    th: {
+      backgroundColor: palette.surface,
+      color: palette.heading,
+      fontWeight: '600',
+      padding: 12,
+      borderBottomWidth: 2,
+      borderBottomColor: palette.border,
+    },
+    td: {
+      color: palette.text,
+      padding: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: palette.border,
+    },
+  };
+}
@@ -0,0 +1,171 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+  Bookmark,
+  saveBookmark,
+  removeBookmark as deleteBookmark,
+  subscribeToUserBookmarks,
+} from '@/services/bookmarkService';
+import { downloadArticle, removeOfflineArticle } from '@/services/offlineArticleService';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface BookmarkInput {
+  contentId: string;
+  title: string;
+  url?: string;
+  excerpt?: string;
+  tags?: string[];
+}
+
+interface BookmarkContextType {
+  bookmarks: Bookmark[];
+  loading: boolean;
+  isBookmarked: (contentId: string) => boolean;
+  addBookmark: (item: BookmarkInput) => Promise<void>;
+  removeBookmark: (contentId: string) => Promise<void>;
+  toggleBookmark: (item: BookmarkInput) => Promise<void>;
+}
+
+const BookmarkContext = createContext<BookmarkContextType | undefined>(undefined);
+
+export function BookmarkProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [remoteBookmarks, setRemoteBookmarks] = useState<Bookmark[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Optimistic changes not yet confirmed: a Bookmark for adds, null for removals
+  const [pending, setPending] = useState<Map<string, Bookmark | null>>(new Map());
+
+  // Subscribe to the signed-in user's bookmarks
+  useEffect(() => {
+    setRemoteBookmarks([]);
+    setPending(new Map());
+
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = subscribeToUserBookmarks(
+      user.uid,
+      (bookmarks) => {
+        setRemoteBookmarks(bookmarks);
+        setLoading(false);
+      },
+      () => setLoading(false)
+    );
+
+    return unsubscribe;
+  }, [user]);
+
+  const bookmarks = useMemo(() => {
+    const merged = new Map(remoteBookmarks.map((bookmark) => [bookmark.contentId, bookmark]));
+    pending.forEach((bookmark, contentId) => {
+      if (bookmark) {
+        merged.set(contentId, bookmark);
+      } else {
+        merged.delete(contentId);
+      }
+    });
+
+    return Array.from(merged.values()).sort(
+      (a, b) => b.bookmarkedAt.getTime() - a.bookmarkedAt.getTime()
+    );
+  }, [remoteBookmarks, pending]);
+
+  const bookmarkedIds = useMemo(
+    () => new Set(bookmarks.map((bookmark) => bookmark.contentId)),
+    [bookmarks]
+  );
+
+  const isBookmarked = useCallback(
+    (contentId: string) => bookmarkedIds.has(contentId),
+    [bookmarkedIds]
+  );
+
+  const setPendingChange = (contentId: string, change: Bookmark | null | undefined) => {
+    setPending((prev) => {
+      const next = new Map(prev);
+      if (change === undefined) {
+        next.delete(contentId);
+      } else {
+        next.set(contentId, change);
+      }
+      return next;
+    });
+  };
+
+  const addBookmark = useCallback(async (item: BookmarkInput) => {
+    if (!user) return;
+
+    setPendingChange(item.contentId, {
+      userId: user.uid,
+      contentId: item.contentId,
+      title: item.title,
+      url: item.url || '',
+      excerpt: item.excerpt,
+      tags: item.tags || [],
+      bookmarkedAt: new Date(),
+    });
+
+    try {
+      await saveBookmark(
+        user.uid,
+        item.contentId,
+        item.title,
+        item.url || '',
+        item.excerpt,
+        item.tags
+      );
+
+      // Keep a parsed copy on the device so saved articles work offline
+      if (item.url) {
+        downloadArticle(item.contentId, item.url).catch((error) => {
+          console.warn('Error downloading article for offline reading:', error);
+        });
+      }
+    } finally {
+      // On success the snapshot now has it; on failure this rolls back
+      setPendingChange(item.contentId, undefined);
+    }
+  }, [user]);
+
+  const removeBookmark = useCallback(async (contentId: string) => {
+    if (!user) return;
+
+    setPendingChange(contentId, null);
+
+    try {
+      await deleteBookmark(user.uid, contentId);
+      removeOfflineArticle(contentId);
+    } finally {
+      setPendingChange(contentId, undefined);
+    }
+  }, [user]);
+
+  const toggleBookmark = useCallback(async (item: BookmarkInput) => {
+    if (bookmarkedIds.has(item.contentId)) {
+      await removeBookmark(item.contentId);
+    } else {
+      await addBookmark(item);
+    }
+  }, [bookmarkedIds, addBookmark, removeBookmark]);
+
+  const value = {
+    bookmarks,
+    loading,
+    isBookmarked,
+    addBookmark,
+    removeBookmark,
+    toggleBookmark,
+  };
+
+  return <BookmarkContext.Provider value={value}>{children}</BookmarkContext.Provider>;
+}
+
+export function useBookmarks() {
+  const context = useContext(BookmarkContext);
+  if (context === undefined) {
+    throw new Error('useBookmarks must be used within a BookmarkProvider');
+  }
+  return context;
+}
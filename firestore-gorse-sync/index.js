@@ -7,6 +7,7 @@
 
 require('dotenv').config();
 
+const { Buffer } = require('buffer');
 const express = require('express');
 const fetch = require('node-fetch');
 const admin = require('firebase-admin');
@@ -27,8 +28,27 @@ const AUTO_SYNC_INTERVAL_MINUTES = parseInt(process.env.AUTO_SYNC_INTERVAL_MINUT
 const AUTO_COLLECT_INTERVAL_MINUTES = parseInt(process.env.AUTO_COLLECT_INTERVAL_MINUTES || '360', 10);
 const ENABLE_FIRESTORE_LISTENER = process.env.ENABLE_FIRESTORE_LISTENER === 'true';
 const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const RANKING_SNAPSHOT_TTL_MS = 30 * 60 * 1000; // 30 minutes
+const RANKING_SIZE = 200; // Items ranked per snapshot; pages are slices of it
 const RATE_LIMIT_MS = 1 * 1000; // 1 second
 const INTERACTION_LOOKBACK_DAYS = 90;
+const CONTENT_LOOKBACK_DAYS = 120;
+const EVENT_DEDUPE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_SYNC_BATCH_SIZE = 100; // Interactions per /interaction/sync-batch request
+const ENGAGEMENT_LOOKBACK = 100; // Recent reads used to weight topics
+const ENGAGEMENT_WEIGHTS = { read_complete: 1, bounced: -0.5 };
+const MAX_ENGAGEMENT_BOOST = 5;
+const EXPLANATION_LIKES = 5; // Recent likes checked for "similar to" reasons
+const EXPLANATION_NEIGHBORS = 50; // Similar items looked up per like
+const EXPLANATION_TRENDING = 100; // Popular items that count as trending
+const RECENT_REASON_DAYS = 3; // Published within this counts as new
+const MUTED_TAG_FACTOR = 0.2; // Score kept by items about a "show less" tag
+const INTEREST_WEIGHT_MULTIPLIERS = { low: 0.5, medium: 1, high: 2 }; // Interest match points per weight
+const DEFAULT_INTEREST_WEIGHT = 'medium';
+const SEARCH_INDEX_TTL_MS = 10 * 60 * 1000; // Catalog search index rebuilt after this
+const MAX_SEARCH_RESULTS = 50;
+const MAX_SEARCH_TERMS = 10;
+const SEARCH_WEIGHTS = { title: 3, tag: 2, excerpt: 1, phrase: 3 }; // Match points per search term
 
 // ============================================================================
 // FIREBASE INITIALIZATION
@@ -332,15 +352,19 @@ async function runFullSync() {
 // RECOMMENDATION ENGINE
 // ============================================================================
 
-// In-memory cache
+// In-memory cache of the latest ranking snapshot id per user
 const cache = new Map();
 
-function getCacheKey(uid, count) {
-  return `${uid}:${count}`;
+// Ranking snapshots, kept longer than the cache so an in-progress
+// infinite scroll keeps paging through the same ordering
+const rankingSnapshots = new Map();
+
+function getCacheKey(uid, topic) {
+  return `${uid}:${topic || 'all'}`;
 }
 
-function getCachedRecommendations(uid, count) {
-  const key = getCacheKey(uid, count);
+function getCachedRecommendations(uid, topic) {
+  const key = getCacheKey(uid, topic);
   const cached = cache.get(key);
   
   if (!cached) return null;
@@ -351,17 +375,62 @@ function getCachedRecommendations(uid, count) {
     return null;
   }
   
-  return cached.data;
+  return getRankingSnapshot(uid, cached.data);
 }
 
-function setCachedRecommendations(uid, count, data) {
-  const key = getCacheKey(uid, count);
+function setCachedRecommendations(uid, topic, snapshotId) {
+  const key = getCacheKey(uid, topic);
   cache.set(key, {
-    data,
+    data: snapshotId,
     timestamp: Date.now(),
   });
 }
 
+function createRankingSnapshot(uid, ranking) {
+  const now = Date.now();
+  
+  // Drop expired snapshots
+  for (const [id, snapshot] of rankingSnapshots) {
+    if (now - snapshot.timestamp > RANKING_SNAPSHOT_TTL_MS) {
+      rankingSnapshots.delete(id);
+    }
+  }
+  
+  const id = `${now.toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+  rankingSnapshots.set(id, { uid, ...ranking, id, timestamp: now });
+  return rankingSnapshots.get(id);
+}
+
+function getRankingSnapshot(uid, snapshotId) {
+  const snapshot = rankingSnapshots.get(snapshotId);
+  
+  if (!snapshot || snapshot.uid !== uid) return null;
+  
+  if (Date.now() - snapshot.timestamp > RANKING_SNAPSHOT_TTL_MS) {
+    rankingSnapshots.delete(snapshotId);
+    return null;
+  }
+  
+  return snapshot;
+}
+
+/**
+ * Cursors are opaque to clients: base64url-encoded snapshot id and offset
+ */
+function encodeCursor(snapshotId, offset) {
+  return Buffer.from(JSON.stringify({ s: snapshotId, o: offset })).toString('base64url');
+}
+
+function decodeCursor(cursor) {
+  try {
+    const { s, o } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (typeof s !== 'string' || !Number.isInteger(o) || o < 0) return null;
+    return { snapshotId: s, offset: o };
+  } catch {
+    return null;
+  }
+}
+
 function invalidateCache(uid) {
   const keysToDelete = [];
   for (const key of cache.keys()) {
@@ -372,26 +441,501 @@ function invalidateCache(uid) {
   keysToDelete.forEach(key => cache.delete(key));
 }
 
-// Rate limiting
+// Rate limiting (per user and topic stream, so chips can load side by side)
 const rateLimitMap = new Map();
 
-function checkRateLimit(uid) {
+function checkRateLimit(uid, topic = null) {
+  const key = getCacheKey(uid, topic);
   const now = Date.now();
-  const lastCall = rateLimitMap.get(uid);
+  const lastCall = rateLimitMap.get(key);
   
   if (lastCall && now - lastCall < RATE_LIMIT_MS) {
     return false;
   }
   
-  rateLimitMap.set(uid, now);
+  rateLimitMap.set(key, now);
   return true;
 }
 
+function clearRateLimit(uid) {
+  for (const key of [...rateLimitMap.keys()]) {
+    if (key.startsWith(`${uid}:`)) {
+      rateLimitMap.delete(key);
+    }
+  }
+}
+
+/**
+ * Check that the request carries a Firebase ID token for `userId`, for
+ * endpoints that delete a user's data. Sends the error response and
+ * returns false when it doesn't.
+ */
+async function verifyUser(req, res, userId) {
+  const token = (req.headers.authorization || '').match(/^Bearer (.+)$/)?.[1];
+  if (!token) {
+    res.status(401).json({ error: 'unauthenticated', message: 'An ID token is required' });
+    return false;
+  }
+  
+  try {
+    const decoded = await admin.auth().verifyIdToken(token);
+    if (decoded.uid !== userId) {
+      res.status(403).json({ error: 'forbidden', message: 'The ID token is for a different user' });
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.warn('Rejected ID token:', error.message);
+    res.status(401).json({ error: 'unauthenticated', message: 'The ID token is invalid or expired' });
+    return false;
+  }
+}
+
+// Replay protection for client interaction outbox. Entries are kept in
+// the order they were seen, so expired ones are always at the front.
+const seenEventIds = new Map();
+
+function pruneSeenEvents() {
+  const now = Date.now();
+  for (const [id, seenAt] of seenEventIds) {
+    if (now - seenAt <= EVENT_DEDUPE_TTL_MS) break;
+    seenEventIds.delete(id);
+  }
+}
+
+function isDuplicateEvent(eventId) {
+  pruneSeenEvents();
+  return seenEventIds.has(eventId);
+}
+
+function markEventSeen(eventId) {
+  // Re-insert so the entry moves to the back with its new time
+  seenEventIds.delete(eventId);
+  seenEventIds.set(eventId, Date.now());
+}
+
+// Topic availability counts, shared across users
+const topicCountCache = new Map();
+
+/**
+ * Count recent content per topic (tag) so feed chips can show real availability
+ */
+async function getTopicCounts(topics) {
+  const cutoffDate = new Date();
+  cutoffDate.setDate(cutoffDate.getDate() - CONTENT_LOOKBACK_DAYS);
+  
+  const counts = {};
+  await Promise.all(topics.map(async (topic) => {
+    const cached = topicCountCache.get(topic);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL_MS) {
+      counts[topic] = cached.count;
+      return;
+    }
+    
+    const snapshot = await db.collection('content')
+      .where('tags', 'array-contains', topic)
+      .where('publishedAt', '>=', admin.firestore.Timestamp.fromDate(cutoffDate))
+      .count()
+      .get();
+    
+    counts[topic] = snapshot.data().count;
+    topicCountCache.set(topic, { count: counts[topic], timestamp: Date.now() });
+  }));
+  
+  return counts;
+}
+
+// Searchable fields of every catalog item, rebuilt in the background
+// once stale so searches never wait on a full catalog read
+let searchIndex = null;
+let searchIndexPromise = null;
+
+/**
+ * Read the searchable fields of the whole catalog, a page at a time
+ */
+async function buildSearchIndex() {
+  const entries = [];
+  let lastDoc = null;
+  
+  while (true) {
+    let query = db.collection('content')
+      .orderBy('publishedAt', 'desc')
+      .select('title', 'excerpt', 'tags', 'publishedAt', 'url')
+      .limit(SYNC_PAGE_SIZE);
+    
+    if (lastDoc) {
+      query = query.startAfter(lastDoc);
+    }
+    
+    const snapshot = await query.get();
+    snapshot.forEach(doc => {
+      const data = doc.data();
+      const tags = data.tags || [];
+      entries.push({
+        contentId: doc.id,
+        title: data.title || 'Untitled',
+        excerpt: data.excerpt,
+        tags,
+        publishedAt: data.publishedAt?.toDate().toISOString(),
+        url: data.url,
+        searchTitle: (data.title || '').toLowerCase(),
+        searchExcerpt: (data.excerpt || '').toLowerCase(),
+        searchTags: tags.map(tag => tag.toLowerCase()),
+      });
+    });
+    
+    if (snapshot.size < SYNC_PAGE_SIZE) break;
+    lastDoc = snapshot.docs[snapshot.docs.length - 1];
+  }
+  
+  console.log(`✓ Search index built: ${entries.length} items`);
+  return entries;
+}
+
+function refreshSearchIndex() {
+  if (!searchIndexPromise) {
+    searchIndexPromise = buildSearchIndex()
+      .then(entries => {
+        searchIndex = { entries, builtAt: Date.now() };
+        return entries;
+      })
+      .finally(() => {
+        searchIndexPromise = null;
+      });
+  }
+  return searchIndexPromise;
+}
+
+/**
+ * Catalog search index. A stale index is still served while the new one
+ * is built; only the first search waits for a build.
+ */
+async function getSearchIndex() {
+  if (!searchIndex) {
+    return refreshSearchIndex();
+  }
+  
+  if (Date.now() - searchIndex.builtAt > SEARCH_INDEX_TTL_MS) {
+    refreshSearchIndex().catch(error => {
+      console.error('Error rebuilding search index:', error.message);
+    });
+  }
+  return searchIndex.entries;
+}
+
+/**
+ * Rebuild the index on the next search, e.g. after new content arrived
+ */
+function markSearchIndexStale() {
+  if (searchIndex) {
+    searchIndex.builtAt = 0;
+  }
+}
+
+function getSearchTerms(text) {
+  const terms = text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length >= 2);
+  
+  return [...new Set(terms)].slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Score an index entry against the search terms. Every term must appear
+ * in the title, tags or excerpt, otherwise the entry doesn't match (0).
+ */
+function scoreSearchEntry(entry, terms, phrase) {
+  let score = 0;
+  for (const term of terms) {
+    let termScore = 0;
+    if (entry.searchTitle.includes(term)) termScore += SEARCH_WEIGHTS.title;
+    if (entry.searchTags.some(tag => tag.includes(term))) termScore += SEARCH_WEIGHTS.tag;
+    if (entry.searchExcerpt.includes(term)) termScore += SEARCH_WEIGHTS.excerpt;
+    
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+  
+  if (terms.length > 1 && entry.searchTitle.includes(phrase)) {
+    score += SEARCH_WEIGHTS.phrase;
+  }
+  
+  return score;
+}
+
+/**
+ * Search the whole catalog. `total` counts every match, of which the
+ * best `count` are returned with `score` as relevance between 0 and 1.
+ */
+async function searchCatalog(text, count) {
+  const terms = getSearchTerms(text);
+  if (terms.length === 0) {
+    return { items: [], total: 0 };
+  }
+  
+  const entries = await getSearchIndex();
+  const phrase = text.trim().toLowerCase();
+  const maxScore = terms.length * (SEARCH_WEIGHTS.title + SEARCH_WEIGHTS.tag + SEARCH_WEIGHTS.excerpt)
+    + (terms.length > 1 ? SEARCH_WEIGHTS.phrase : 0);
+  
+  const matches = [];
+  entries.forEach(entry => {
+    const score = scoreSearchEntry(entry, terms, phrase);
+    if (score > 0) {
+      matches.push({ entry, score: score / maxScore });
+    }
+  });
+  
+  matches.sort((a, b) =>
+    b.score - a.score ||
+    (b.entry.publishedAt || '').localeCompare(a.entry.publishedAt || '')
+  );
+  
+  return {
+    items: matches.slice(0, count).map(({ entry, score }) => ({
+      contentId: entry.contentId,
+      score,
+      title: entry.title,
+      excerpt: entry.excerpt,
+      tags: entry.tags,
+      publishedAt: entry.publishedAt,
+      url: entry.url,
+    })),
+    total: matches.length,
+  };
+}
+
+/**
+ * Per-tag engagement from the user's recent reads: tags of articles read
+ * to the end count up, tags of articles bounced off count down
+ */
+async function getTagEngagement(uid) {
+  const engagement = new Map();
+  
+  try {
+    const snapshot = await db.collection('interactions')
+      .where('userId', '==', uid)
+      .where('type', 'in', Object.keys(ENGAGEMENT_WEIGHTS))
+      .orderBy('timestamp', 'desc')
+      .limit(ENGAGEMENT_LOOKBACK)
+      .get();
+    
+    if (snapshot.empty) {
+      return engagement;
+    }
+    
+    const contentRefs = snapshot.docs.map(doc => db.collection('content').doc(doc.data().contentId));
+    const contentDocs = await db.getAll(...contentRefs);
+    
+    contentDocs.forEach((contentDoc, idx) => {
+      if (!contentDoc.exists) return;
+      const weight = ENGAGEMENT_WEIGHTS[snapshot.docs[idx].data().type];
+      (contentDoc.data().tags || []).forEach(tag => {
+        const key = tag.toLowerCase();
+        engagement.set(key, (engagement.get(key) || 0) + weight);
+      });
+    });
+  } catch (error) {
+    // Ranking still works without engagement, just less personal
+    console.warn(`Could not load engagement for ${uid}:`, error.message);
+  }
+  
+  return engagement;
+}
+
+/**
+ * Engagement boost for an item's tags, capped so it adjusts ranking
+ * without overriding interest matches
+ */
+function getEngagementBoost(tags, engagement) {
+  const boost = tags.reduce((sum, tag) => sum + (engagement.get(tag.toLowerCase()) || 0), 0);
+  return Math.max(-MAX_ENGAGEMENT_BOOST, Math.min(MAX_ENGAGEMENT_BOOST, boost));
+}
+
+/**
+ * Active "show less" rules from the user's profile: muted tags are ranked
+ * down, muted sites are left out. Expired rules are ignored.
+ */
+function getActiveMutes(userData) {
+  const mutes = { tags: new Set(), sites: new Set() };
+  
+  (userData?.muteRules || []).forEach(rule => {
+    const expiresAt = rule.expiresAt?.toDate ? rule.expiresAt.toDate() : null;
+    if (expiresAt && expiresAt.getTime() <= Date.now()) return;
+    if (!rule.value) return;
+    
+    if (rule.kind === 'tag') {
+      mutes.tags.add(rule.value.toLowerCase());
+    } else if (rule.kind === 'site') {
+      mutes.sites.add(rule.value.toLowerCase());
+    }
+  });
+  
+  return mutes;
+}
+
+/**
+ * Host of an article URL without "www.", used to match site mutes
+ */
+function getSite(url) {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Score multiplier for an item under the user's mutes: 0 for a muted
+ * site (including its subdomains), MUTED_TAG_FACTOR for a muted tag.
+ * A topic stream ignores a mute on its own topic.
+ */
+function getMuteFactor(tags, url, mutes, topic = null) {
+  const site = url ? getSite(url) : null;
+  if (site && [...mutes.sites].some(muted => site === muted || site.endsWith(`.${muted}`))) {
+    return 0;
+  }
+  
+  const hasMutedTag = tags.some(tag => {
+    const key = tag.toLowerCase();
+    return key !== topic && mutes.tags.has(key);
+  });
+  return hasMutedTag ? MUTED_TAG_FACTOR : 1;
+}
+
+/**
+ * Match multiplier for each of the user's interests, keyed by lowercase
+ * name. Interests saved before weights existed count as medium.
+ */
+function getInterestMultipliers(userData) {
+  const weights = userData?.interestWeights || {};
+  const multipliers = new Map();
+  (userData?.interests || []).forEach(interest => {
+    if (typeof interest !== 'string') return;
+    const key = interest.toLowerCase();
+    multipliers.set(key, INTEREST_WEIGHT_MULTIPLIERS[weights[key]] || INTEREST_WEIGHT_MULTIPLIERS[DEFAULT_INTEREST_WEIGHT]);
+  });
+  return multipliers;
+}
+
+/**
+ * Multiplier of the strongest interest a tag matches, exactly or
+ * partially; 0 when it matches none
+ */
+function getTagInterestMultiplier(tag, multipliers) {
+  const lowerTag = tag.toLowerCase();
+  let strongest = 0;
+  multipliers.forEach((multiplier, interest) => {
+    if (lowerTag.includes(interest) || interest.includes(lowerTag)) {
+      strongest = Math.max(strongest, multiplier);
+    }
+  });
+  return strongest;
+}
+
+/**
+ * Interests an item's tags match, exactly or partially
+ */
+function getMatchedInterests(tags, userInterests) {
+  const matched = new Set();
+  tags.forEach(tag => {
+    const lowerTag = tag.toLowerCase();
+    userInterests.forEach(interest => {
+      const lowerInterest = interest.toLowerCase();
+      if (lowerTag.includes(lowerInterest) || lowerInterest.includes(lowerTag)) {
+        matched.add(lowerInterest);
+      }
+    });
+  });
+  return [...matched];
+}
+
+/**
+ * What Gorse knows that explains its picks: items similar to the user's
+ * recent likes, and what's popular right now. Explanations are optional,
+ * so failures just leave these empty.
+ */
+async function getExplanationSignals(uid) {
+  const signals = { similarTo: new Map(), trending: new Set() };
+  
+  try {
+    const likesSnapshot = await db.collection('interactions')
+      .where('userId', '==', uid)
+      .where('type', '==', 'like')
+      .orderBy('timestamp', 'desc')
+      .limit(EXPLANATION_LIKES)
+      .get();
+    
+    const likedIds = [...new Set(likesSnapshot.docs.map(doc => doc.data().contentId))];
+    if (likedIds.length > 0) {
+      const likedDocs = await db.getAll(...likedIds.map(id => db.collection('content').doc(id)));
+      
+      await Promise.all(likedDocs.map(async (likedDoc) => {
+        if (!likedDoc.exists) return;
+        const neighbors = await gorseRequest(
+          `/api/item/${encodeURIComponent(likedDoc.id)}/neighbors?n=${EXPLANATION_NEIGHBORS}`
+        );
+        (neighbors || []).forEach(neighbor => {
+          const id = neighbor.Id || neighbor;
+          // Likes are newest first, so keep the most recent match
+          if (!signals.similarTo.has(id)) {
+            signals.similarTo.set(id, { contentId: likedDoc.id, title: likedDoc.data().title });
+          }
+        });
+      }));
+    }
+  } catch (error) {
+    console.warn(`Could not load similar items for ${uid}:`, error.message);
+  }
+  
+  try {
+    const popular = await gorseRequest(`/api/popular?n=${EXPLANATION_TRENDING}`);
+    (popular || []).forEach(item => signals.trending.add(item.Id || item));
+  } catch (error) {
+    console.warn('Could not load popular items:', error.message);
+  }
+  
+  return signals;
+}
+
+/**
+ * Structured reasons an item was recommended, strongest first:
+ * similar_to_liked, interest_match, trending, recent
+ */
+function explainRecommendation(contentId, tags, userInterests, publishedAt, signals = null) {
+  const reasons = [];
+  
+  const similarTo = signals?.similarTo.get(contentId);
+  if (similarTo && similarTo.contentId !== contentId) {
+    reasons.push({ kind: 'similar_to_liked', similarTo });
+  }
+  
+  const matchedTags = getMatchedInterests(tags, userInterests);
+  if (matchedTags.length > 0) {
+    reasons.push({ kind: 'interest_match', matchedTags });
+  }
+  
+  if (signals?.trending.has(contentId)) {
+    reasons.push({ kind: 'trending' });
+  }
+  
+  const daysSince = publishedAt ? (Date.now() - publishedAt.getTime()) / (1000 * 60 * 60 * 24) : Infinity;
+  if (daysSince <= RECENT_REASON_DAYS) {
+    reasons.push({ kind: 'recent', publishedAt: publishedAt.toISOString() });
+  }
+  
+  return reasons;
+}
+
 /**
  * Fallback recommendation logic (when Gorse is unavailable)
+ * 
+ * With a topic, only content tagged with it is considered; topic queries
+ * need a composite index on content (tags array-contains, publishedAt desc).
  */
-async function getFallbackRecommendations(uid, count) {
-  console.log(`Using fallback recommendations for user ${uid}`);
+async function getFallbackRecommendations(uid, count, topic = null, engagement = null) {
+  console.log(`Using fallback recommendations for user ${uid}${topic ? ` (topic: ${topic})` : ''}`);
   
   // Get user interests
   const userDoc = await db.collection('users').doc(uid).get();
@@ -400,15 +944,22 @@ async function getFallbackRecommendations(uid, count) {
   }
   
   const userInterests = userDoc.data().interests || [];
-  if (userInterests.length === 0) {
+  const interestMultipliers = getInterestMultipliers(userDoc.data());
+  const mutes = getActiveMutes(userDoc.data());
+  if (userInterests.length === 0 && !topic) {
     return { items: [], source: 'fallback', reason: 'no_interests' };
   }
   
   // Get recent content
   const cutoffDate = new Date();
-  cutoffDate.setDate(cutoffDate.getDate() - 120);
+  cutoffDate.setDate(cutoffDate.getDate() - CONTENT_LOOKBACK_DAYS);
   
-  const contentSnapshot = await db.collection('content')
+  let contentQuery = db.collection('content');
+  if (topic) {
+    contentQuery = contentQuery.where('tags', 'array-contains', topic);
+  }
+  
+  const contentSnapshot = await contentQuery
     .where('publishedAt', '>=', admin.firestore.Timestamp.fromDate(cutoffDate))
     .orderBy('publishedAt', 'desc')
     .limit(300)
@@ -418,6 +969,8 @@ async function getFallbackRecommendations(uid, count) {
     return { items: [], source: 'fallback', reason: 'no_content' };
   }
   
+  const tagEngagement = engagement || await getTagEngagement(uid);
+  
   // Score each item with aggressive interest matching
   const scoredItems = [];
   contentSnapshot.forEach(doc => {
@@ -426,17 +979,20 @@ async function getFallbackRecommendations(uid, count) {
     const publishedAt = data.publishedAt?.toDate() || new Date();
     
     // Aggressive tag matching - heavily weight interest matches
-    const tagMatchCount = tags.filter(tag => userInterests.includes(tag)).length;
-    const tagMatchScore = tagMatchCount * 10; // 10 points per matching tag
+    const exactMatchTags = tags.filter(tag => userInterests.includes(tag));
+    const tagMatchCount = exactMatchTags.length;
+    // 10 points per matching tag, scaled by how much the user wants that interest
+    const tagMatchScore = exactMatchTags.reduce(
+      (sum, tag) => sum + 10 * interestMultipliers.get(tag.toLowerCase()), 0
+    );
     
     // Partial tag matching - check if any user interest is substring of content tags
-    const partialMatches = tags.filter(tag => 
-      userInterests.some(interest => 
-        tag.toLowerCase().includes(interest.toLowerCase()) || 
-        interest.toLowerCase().includes(tag.toLowerCase())
-      )
-    ).length;
-    const partialMatchScore = partialMatches * 5; // 5 points per partial match
+    const partialMatchMultipliers = tags
+      .map(tag => getTagInterestMultiplier(tag, interestMultipliers))
+      .filter(multiplier => multiplier > 0);
+    const partialMatches = partialMatchMultipliers.length;
+    // 5 points per partial match, scaled by the strongest interest it matches
+    const partialMatchScore = partialMatchMultipliers.reduce((sum, multiplier) => sum + 5 * multiplier, 0);
     
     // Recency boost - favor recent content
     const daysSince = (Date.now() - publishedAt.getTime()) / (1000 * 60 * 60 * 24);
@@ -448,10 +1004,19 @@ async function getFallbackRecommendations(uid, count) {
     // Diversity penalty - slightly reduce score if content type is overrepresented
     const contentTypeBoost = data.contentType === 'article' ? 1 : 0.8;
     
-    const score = (tagMatchScore + partialMatchScore + recencyBoost + importanceBoost) * contentTypeBoost;
+    // Favor topics the user reads to the end over ones they bounce off
+    const engagementBoost = getEngagementBoost(tags, tagEngagement);
+    
+    // Muted sites are dropped; muted tags sink
+    const muteFactor = getMuteFactor(tags, data.url, mutes, topic);
+    
+    const score = (tagMatchScore + partialMatchScore + recencyBoost + importanceBoost + engagementBoost) * contentTypeBoost * muteFactor;
     
-    // Only include items with at least some interest match
-    if (tagMatchCount > 0 || partialMatches > 0) {
+    // Only include items with at least some interest match (topic streams
+    // are already filtered to the topic, so interests only affect ranking)
+    if (muteFactor > 0 && (topic || tagMatchCount > 0 || partialMatches > 0)) {
+      const reasons = explainRecommendation(doc.id, tags, userInterests, publishedAt);
+      
       scoredItems.push({
         contentId: doc.id,
         score,
@@ -460,6 +1025,8 @@ async function getFallbackRecommendations(uid, count) {
         tags: data.tags,
         publishedAt: publishedAt.toISOString(),
         url: data.url,
+        // Without interest matches, fallback picks are simply the newest in the topic
+        reasons: reasons.length > 0 ? reasons : [{ kind: 'recent', publishedAt: publishedAt.toISOString() }],
       });
     }
   });
@@ -472,21 +1039,18 @@ async function getFallbackRecommendations(uid, count) {
 }
 
 /**
- * Get recommendations for a user (Gorse or fallback)
+ * Rank up to `count` items for a user (Gorse or fallback), optionally
+ * restricted to a single topic (tag)
  */
-async function getRecommendationsForUser(uid, count = 20) {
-  // Check cache
-  const cached = getCachedRecommendations(uid, count);
-  if (cached) {
-    return { ...cached, cached: true };
-  }
-  
+async function buildRanking(uid, count, topic = null) {
   try {
     // Try Gorse first with aggressive parameters
     // write-back-type=read: prioritize user's reading history
     // write-back-delay=0: no delay in applying feedback
+    // Topic streams use Gorse's per-category recommendations (categories are tags)
+    const categoryPath = topic ? `/${encodeURIComponent(topic)}` : '';
     const gorseRecommendations = await gorseRequest(
-      `/api/recommend/${uid}?n=${count * 2}&write-back-type=read&write-back-delay=0`
+      `/api/recommend/${uid}${categoryPath}?n=${count * 2}&write-back-type=read&write-back-delay=0`
     );
     
     // Resolve item IDs to Firestore documents
@@ -494,12 +1058,18 @@ async function getRecommendationsForUser(uid, count = 20) {
     
     if (itemIds.length === 0) {
       // No recommendations from Gorse, use fallback
-      return getFallbackRecommendations(uid, count);
+      return getFallbackRecommendations(uid, count, topic);
     }
     
     // Get user interests for relevance filtering
     const userDoc = await db.collection('users').doc(uid).get();
     const userInterests = userDoc.exists ? (userDoc.data().interests || []) : [];
+    const interestMultipliers = getInterestMultipliers(userDoc.exists ? userDoc.data() : null);
+    const mutes = getActiveMutes(userDoc.exists ? userDoc.data() : null);
+    const [engagement, signals] = await Promise.all([
+      getTagEngagement(uid),
+      getExplanationSignals(uid),
+    ]);
     
     // Batch get from Firestore
     const contentRefs = itemIds.map(id => db.collection('content').doc(id));
@@ -521,41 +1091,118 @@ async function getRecommendationsForUser(uid, count = 20) {
           )
         );
         
-        // Only include if relevant to user interests
-        if (userInterests.length === 0 || hasExactMatch || hasPartialMatch) {
+        // Topic streams must carry the topic; otherwise require relevance to interests
+        const isRelevant = topic
+          ? tags.some(tag => tag.toLowerCase() === topic)
+          : userInterests.length === 0 || hasExactMatch || hasPartialMatch;
+        
+        // Muted sites are dropped; muted tags sink
+        const muteFactor = getMuteFactor(tags, data.url, mutes, topic);
+        
+        if (isRelevant && muteFactor > 0) {
+          // Gorse treats all positive feedback alike; nudge its scores up for
+          // topics read to the end and down for topics the user bounces off
+          const engagementFactor = 1 + getEngagementBoost(tags, engagement) / (MAX_ENGAGEMENT_BOOST * 2);
+          
+          // Gentler nudge by interest weight: high-weight matches rise, low sink
+          const strongestMultiplier = Math.max(0, ...tags.map(tag => getTagInterestMultiplier(tag, interestMultipliers)));
+          const interestFactor = strongestMultiplier > 0 ? 1 + (strongestMultiplier - 1) / 4 : 1;
+          
           items.push({
             contentId: doc.id,
-            score: gorseRecommendations[idx].Score || 1.0,
+            score: (gorseRecommendations[idx].Score || 1.0) * engagementFactor * interestFactor * muteFactor,
             title: data.title,
             excerpt: data.excerpt,
             tags: data.tags,
             publishedAt: publishedAt?.toISOString(),
             url: data.url,
+            reasons: explainRecommendation(doc.id, tags, userInterests, publishedAt, signals),
           });
         }
       }
     });
     
+    items.sort((a, b) => b.score - a.score);
+    
     // If we need more items, get from fallback
-    if (items.length < count && userInterests.length > 0) {
+    if (items.length < count && (topic || userInterests.length > 0)) {
       console.log(`📊 Gorse provided ${items.length} items, adding ${count - items.length} more from fallback for variety`);
-      const fallbackResult = await getFallbackRecommendations(uid, count - items.length);
-      items.push(...fallbackResult.items);
+      const fallbackResult = await getFallbackRecommendations(uid, count, topic, engagement);
+      const seenIds = new Set(items.map(item => item.contentId));
+      items.push(...fallbackResult.items.filter(item => !seenIds.has(item.contentId)));
     }
     
-    const result = { items: items.slice(0, count), source: 'gorse' };
-    
-    // Cache the result
-    setCachedRecommendations(uid, count, result);
-    
-    return result;
+    return { items: items.slice(0, count), source: 'gorse' };
     
   } catch (error) {
     console.error('Gorse recommendation failed, using fallback:', error.message);
-    return getFallbackRecommendations(uid, count);
+    return getFallbackRecommendations(uid, count, topic);
   }
 }
 
+/**
+ * Get one page of recommendations for a user.
+ * 
+ * The first page (no cursor) ranks up to RANKING_SIZE items into a snapshot;
+ * the returned cursor points into that snapshot so later pages never repeat
+ * or skip items even if the ranking changes in the meantime.
+ */
+async function getRecommendationsForUser(uid, count = 20, cursor = null, topic = null) {
+  let snapshot = null;
+  let offset = 0;
+  let cached = false;
+  
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (!decoded) {
+      const error = new Error('Invalid cursor');
+      error.status = 400;
+      throw error;
+    }
+    
+    snapshot = getRankingSnapshot(uid, decoded.snapshotId);
+    if (!snapshot) {
+      const error = new Error('Cursor expired, reload from the first page');
+      error.status = 410;
+      throw error;
+    }
+    offset = decoded.offset;
+  } else {
+    snapshot = getCachedRecommendations(uid, topic);
+    cached = !!snapshot;
+  }
+  
+  if (!snapshot) {
+    const ranking = await buildRanking(uid, RANKING_SIZE, topic);
+    snapshot = createRankingSnapshot(uid, ranking);
+    
+    // Only Gorse rankings are cached; fallback is retried on the next request
+    if (ranking.source === 'gorse') {
+      setCachedRecommendations(uid, topic, snapshot.id);
+    }
+  }
+  
+  const items = snapshot.items.slice(offset, offset + count);
+  const nextOffset = offset + items.length;
+  const hasMore = nextOffset < snapshot.items.length;
+  
+  const result = {
+    items,
+    source: snapshot.source,
+    nextCursor: hasMore ? encodeCursor(snapshot.id, nextOffset) : null,
+    hasMore,
+  };
+  
+  if (snapshot.reason) {
+    result.reason = snapshot.reason;
+  }
+  if (cached) {
+    result.cached = true;
+  }
+  
+  return result;
+}
+
 
 // ============================================================================
 // EXPRESS SERVER
@@ -580,24 +1227,37 @@ app.get('/health', async (req, res) => {
 // Recommendations endpoint
 app.get('/recommendations', async (req, res) => {
   try {
-    const { uid, count = 20 } = req.query;
+    const { uid, count = 20, cursor } = req.query;
+    const topic = req.query.topic ? req.query.topic.toLowerCase() : null;
     
     if (!uid) {
       return res.status(400).json({ error: 'uid parameter is required' });
     }
     
-    // Check rate limit
-    if (!checkRateLimit(uid)) {
+    // Check rate limit (cursor pages are cheap snapshot slices, so exempt)
+    if (!cursor && !checkRateLimit(uid, topic)) {
       return res.status(429).json({
         error: 'rate_limit_exceeded',
         message: 'Please wait before making another request',
       });
     }
     
-    const recommendations = await getRecommendationsForUser(uid, parseInt(count, 10));
+    const recommendations = await getRecommendationsForUser(
+      uid,
+      parseInt(count, 10),
+      cursor || null,
+      topic
+    );
     res.json(recommendations);
     
   } catch (error) {
+    if (error.status === 400 || error.status === 410) {
+      return res.status(error.status).json({
+        error: error.status === 400 ? 'invalid_cursor' : 'cursor_expired',
+        message: error.message,
+      });
+    }
+    
     console.error('Error in /recommendations:', error);
     res.status(500).json({
       error: 'internal_error',
@@ -606,6 +1266,51 @@ app.get('/recommendations', async (req, res) => {
   }
 });
 
+// Available content per topic, for feed chip counts
+app.get('/recommendations/topics', async (req, res) => {
+  try {
+    const { topics } = req.query;
+    
+    if (!topics) {
+      return res.status(400).json({ error: 'topics parameter is required' });
+    }
+    
+    const topicList = [...new Set(
+      topics.split(',').map(topic => topic.trim().toLowerCase()).filter(Boolean)
+    )];
+    
+    const counts = await getTopicCounts(topicList);
+    res.json({ counts });
+  } catch (error) {
+    console.error('Error in /recommendations/topics:', error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: error.message,
+    });
+  }
+});
+
+// Catalog search by title, excerpt and tags
+app.get('/search', async (req, res) => {
+  try {
+    const { q, count = '30' } = req.query;
+    
+    if (!q || typeof q !== 'string') {
+      return res.status(400).json({ error: 'q parameter is required' });
+    }
+    
+    const limit = Math.min(Math.max(parseInt(count, 10) || 30, 1), MAX_SEARCH_RESULTS);
+    const result = await searchCatalog(q, limit);
+    res.json(result);
+  } catch (error) {
+    console.error('Error in /search:', error);
+    res.status(500).json({
+      error: 'internal_error',
+      message: error.message,
+    });
+  }
+});
+
 // Content ingestion and sync endpoint
 app.post('/sync', async (req, res) => {
   try {
@@ -613,6 +1318,7 @@ app.post('/sync', async (req, res) => {
     
     // Run content ingestion
     const result = await ingestAllFeeds(db, gorseRequest, { mode, debug });
+    markSearchIndexStale();
     
     res.json(result);
   } catch (error) {
@@ -741,12 +1447,53 @@ app.post('/normalize-interests', async (req, res) => {
   }
 });
 
+// Give existing interests the default weight (one-time migration)
+app.post('/migrate-interest-weights', async (req, res) => {
+  try {
+    console.log('Adding default weights to user interests...');
+    
+    const usersSnapshot = await db.collection('users').get();
+    const toMigrate = usersSnapshot.docs.filter(doc => {
+      const data = doc.data();
+      return Array.isArray(data.interests) && !data.interestWeights;
+    });
+    
+    // Firestore batches are limited to 500 writes
+    for (let i = 0; i < toMigrate.length; i += 500) {
+      const batch = db.batch();
+      toMigrate.slice(i, i + 500).forEach(doc => {
+        const interestWeights = {};
+        doc.data().interests.forEach(interest => {
+          if (typeof interest === 'string') {
+            interestWeights[interest.toLowerCase()] = DEFAULT_INTEREST_WEIGHT;
+          }
+        });
+        batch.update(doc.ref, { interestWeights });
+      });
+      await batch.commit();
+    }
+    const updated = toMigrate.length;
+    
+    // Also sync to Gorse
+    await syncAllUsers();
+    
+    console.log(`✓ Added interest weights for ${updated} users`);
+    res.json({ success: true, usersUpdated: updated });
+  } catch (error) {
+    console.error('Error migrating interest weights:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Large-scale content collection endpoint
 app.post('/collect', async (req, res) => {
   try {
     const { sources, dry = false } = req.body || {};
     
     const result = await collectAllContent(db, gorseRequest, { sources, dry });
+    if (!dry) {
+      markSearchIndexStale();
+    }
     res.json(result);
   } catch (error) {
     console.error('Error in /collect:', error);
@@ -791,7 +1538,7 @@ app.post('/invalidate-cache', async (req, res) => {
   try {
     invalidateCache(uid);
     // Also clear rate limit to allow immediate refresh
-    rateLimitMap.delete(uid);
+    clearRateLimit(uid);
     
     // Sync user interests to Gorse immediately
     const userDoc = await db.collection('users').doc(uid).get();
@@ -818,7 +1565,7 @@ app.post('/invalidate-cache', async (req, res) => {
 // Sync single interaction to Gorse immediately
 app.post('/interaction/sync', async (req, res) => {
   try {
-    const { userId, contentId, type } = req.body;
+    const { eventId, userId, contentId, type, timestamp } = req.body;
     
     if (!userId || !contentId || !type) {
       return res.status(400).json({ 
@@ -826,14 +1573,27 @@ app.post('/interaction/sync', async (req, res) => {
       });
     }
     
+    // Outbox replays of an already-synced event are acknowledged but skipped
+    if (eventId && isDuplicateEvent(eventId)) {
+      return res.json({ 
+        success: true, 
+        duplicate: true,
+        message: 'Interaction already synced' 
+      });
+    }
+    
     // Send to Gorse immediately
     await gorseRequest('/api/feedback', 'POST', [{
       FeedbackType: type,
       UserId: userId,
       ItemId: contentId,
-      Timestamp: new Date().toISOString(),
+      Timestamp: timestamp || new Date().toISOString(),
     }]);
     
+    if (eventId) {
+      markEventSeen(eventId);
+    }
+    
     // Invalidate user's recommendation cache
     invalidateCache(userId);
     
@@ -850,6 +1610,185 @@ app.post('/interaction/sync', async (req, res) => {
   }
 });
 
+// Sync a batch of interactions to Gorse in one feedback insert. Body:
+// { events: [{ eventId, userId, contentId, type, timestamp }] }. The batch
+// succeeds or fails as a whole; replayed events are counted as duplicates.
+app.post('/interaction/sync-batch', async (req, res) => {
+  try {
+    const { events } = req.body || {};
+    
+    if (!Array.isArray(events) || events.length === 0) {
+      return res.status(400).json({ error: 'events must be a non-empty array' });
+    }
+    
+    if (events.length > MAX_SYNC_BATCH_SIZE) {
+      return res.status(400).json({ 
+        error: `A batch can hold at most ${MAX_SYNC_BATCH_SIZE} events` 
+      });
+    }
+    
+    if (events.some(event => !event || !event.userId || !event.contentId || !event.type)) {
+      return res.status(400).json({ 
+        error: 'Every event needs userId, contentId, and type' 
+      });
+    }
+    
+    // Skip replays, including an event repeated within the batch
+    const batchEventIds = new Set();
+    const fresh = events.filter(event => {
+      if (!event.eventId) return true;
+      if (batchEventIds.has(event.eventId) || isDuplicateEvent(event.eventId)) return false;
+      batchEventIds.add(event.eventId);
+      return true;
+    });
+    
+    if (fresh.length > 0) {
+      await gorseRequest('/api/feedback', 'POST', fresh.map(event => ({
+        FeedbackType: event.type,
+        UserId: event.userId,
+        ItemId: event.contentId,
+        Timestamp: event.timestamp || new Date().toISOString(),
+      })));
+    }
+    
+    fresh.forEach(event => {
+      if (event.eventId) {
+        markEventSeen(event.eventId);
+      }
+    });
+    
+    // Invalidate each affected user's recommendation cache once
+    new Set(fresh.map(event => event.userId)).forEach(uid => invalidateCache(uid));
+    
+    res.json({ 
+      success: true, 
+      synced: fresh.length,
+      duplicates: events.length - fresh.length,
+      message: `${fresh.length} interactions synced to Gorse` 
+    });
+  } catch (error) {
+    console.error('Error syncing interaction batch:', error);
+    res.status(500).json({
+      error: 'sync_failed',
+      message: error.message,
+    });
+  }
+});
+
+// Retract a previously synced interaction (e.g. an undone dismiss)
+app.post('/interaction/retract', async (req, res) => {
+  try {
+    const { eventId, retractsEventId, userId, contentId, type } = req.body;
+    
+    if (!userId || !contentId || !type) {
+      return res.status(400).json({ 
+        error: 'userId, contentId, and type are required' 
+      });
+    }
+    
+    if (eventId && isDuplicateEvent(eventId)) {
+      return res.json({ 
+        success: true, 
+        duplicate: true,
+        message: 'Retraction already applied' 
+      });
+    }
+    
+    // Gorse keeps one feedback per user, item and type, so it stays while
+    // other interactions of that type (e.g. views on other days) remain.
+    // The client deletes the retracted document before calling this.
+    const remaining = await db.collection('interactions')
+      .where('userId', '==', userId)
+      .where('contentId', '==', contentId)
+      .where('type', '==', type)
+      .get();
+    const othersRemain = remaining.docs.some(doc => doc.id !== retractsEventId);
+    
+    // Otherwise remove the feedback so it stops influencing recommendations
+    if (!othersRemain) {
+      await gorseRequest(
+        `/api/feedback/${encodeURIComponent(type)}/${encodeURIComponent(userId)}/${encodeURIComponent(contentId)}`,
+        'DELETE'
+      );
+    }
+    
+    if (eventId) {
+      markEventSeen(eventId);
+    }
+    
+    // Invalidate user's recommendation cache
+    invalidateCache(userId);
+    
+    res.json({ 
+      success: true, 
+      message: othersRemain
+        ? 'Interaction retracted; Gorse feedback kept for remaining interactions'
+        : 'Interaction retracted from Gorse' 
+    });
+  } catch (error) {
+    console.error('Error retracting interaction:', error);
+    res.status(500).json({
+      error: 'retract_failed',
+      message: error.message,
+    });
+  }
+});
+
+// Delete all of a user's interactions of one type (e.g. clearing reading history)
+app.post('/interaction/clear', async (req, res) => {
+  try {
+    const { userId, type } = req.body;
+    
+    if (!userId || !type) {
+      return res.status(400).json({ 
+        error: 'userId and type are required' 
+      });
+    }
+    
+    if (!(await verifyUser(req, res, userId))) return;
+    
+    const snapshot = await db.collection('interactions')
+      .where('userId', '==', userId)
+      .where('type', '==', type)
+      .get();
+    
+    // Firestore batches are limited to 500 writes
+    const docs = snapshot.docs;
+    for (let i = 0; i < docs.length; i += 500) {
+      const batch = db.batch();
+      docs.slice(i, i + 500).forEach(doc => batch.delete(doc.ref));
+      await batch.commit();
+    }
+    
+    // Gorse keeps one feedback per user, item and type
+    const contentIds = [...new Set(docs.map(doc => doc.data().contentId))];
+    for (const contentId of contentIds) {
+      try {
+        await gorseRequest(
+          `/api/feedback/${encodeURIComponent(type)}/${encodeURIComponent(userId)}/${encodeURIComponent(contentId)}`,
+          'DELETE'
+        );
+      } catch (error) {
+        console.warn(`Failed to delete ${type} feedback for ${contentId}:`, error.message);
+      }
+    }
+    
+    invalidateCache(userId);
+    
+    res.json({ 
+      success: true, 
+      deleted: docs.length,
+      message: `Cleared ${docs.length} ${type} interactions` 
+    });
+  } catch (error) {
+    console.error('Error clearing interactions:', error);
+    res.status(500).json({
+      error: 'clear_failed',
+      message: error.message,
+    });
+  }
+});
+
 // ============================================================================
 // STARTUP
 // ============================================================================
@@ -0,0 +1,331 @@
+/**
+ * Article Markup
+ *
+ * Annotates parsed article HTML before it is rendered: highlight and
+ * find-in-article marks, and anchors for the table of contents and the
+ * image gallery
+ */
+
+import type { Highlight } from '@/services/highlightService';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// ============================================================================
+// TEXT MARKS
+// ============================================================================
+
+interface TextIndex {
+  parts: string[];
+  // Decoded text of each text run, null for tags
+  segments: (string | null)[];
+  // Visible text with runs of whitespace collapsed
+  plainText: string;
+  // (part index, offset) of each plainText character
+  positions: { part: number; offset: number }[];
+}
+
+/**
+ * A range of plainText to wrap, with the opening tag to wrap it in
+ */
+interface MarkRange {
+  start: number;
+  end: number;
+  openTag: string;
+}
+
+function indexText(html: string): TextIndex {
+  const parts = html.split(/(<[^>]+>)/);
+  const segments = parts.map((part) =>
+    part.startsWith('<') ? null : decodeEntities(part)
+  );
+
+  let plainText = '';
+  const positions: { part: number; offset: number }[] = [];
+  segments.forEach((segment, part) => {
+    if (segment === null) return;
+    for (let offset = 0; offset < segment.length; offset++) {
+      const isSpace = /\s/.test(segment[offset]);
+      if (isSpace && (plainText.length === 0 || plainText.endsWith(' '))) continue;
+      plainText += isSpace ? ' ' : segment[offset];
+      positions.push({ part, offset });
+    }
+  });
+
+  return { parts, segments, plainText, positions };
+}
+
+/**
+ * Wrap ranges of visible text in `<mark>` tags. A range can span inline
+ * tags such as links; it is split into one mark per text run.
+ */
+function wrapRanges(index: TextIndex, ranges: MarkRange[]): string {
+  const { parts, segments, positions } = index;
+
+  // Character ranges to mark per text run
+  const marks = new Map<number, { start: number; end: number; openTag: string }[]>();
+  ranges.forEach(({ start, end, openTag }) => {
+    for (let i = start; i < end; i++) {
+      const { part, offset } = positions[i];
+      const partRanges = marks.get(part) || [];
+      const last = partRanges[partRanges.length - 1];
+      if (last && last.openTag === openTag && last.end === offset) {
+        last.end = offset + 1;
+      } else {
+        partRanges.push({ start: offset, end: offset + 1, openTag });
+      }
+      marks.set(part, partRanges);
+    }
+  });
+
+  return parts
+    .map((part, partIndex) => {
+      const segment = segments[partIndex];
+      const partRanges = marks.get(partIndex);
+      if (segment === null || !partRanges) return part;
+
+      let result = '';
+      let cursor = 0;
+      partRanges
+        .sort((a, b) => a.start - b.start)
+        .forEach(({ start, end, openTag }) => {
+          if (start < cursor) return; // overlapping ranges keep the first
+          result += escapeText(segment.slice(cursor, start));
+          result += `${openTag}${escapeText(segment.slice(start, end))}</mark>`;
+          cursor = end;
+        });
+      return result + escapeText(segment.slice(cursor));
+    })
+    .join('');
+}
+
+/**
+ * Wrap each highlighted passage in the article HTML with
+ * `<mark data-highlight-id>`. Passages are matched against the visible
+ * text, so they can span inline tags such as links; a passage that no
+ * longer appears in the article is left unmarked.
+ */
+export function applyHighlights(html: string, highlights: Highlight[]): string {
+  if (highlights.length === 0) return html;
+
+  const index = indexText(html);
+  const ranges: MarkRange[] = [];
+  highlights.forEach((highlight) => {
+    const quote = normalizeWhitespace(highlight.text);
+    if (!quote) return;
+
+    const start = index.plainText.indexOf(quote);
+    if (start === -1) return;
+
+    ranges.push({
+      start,
+      end: start + quote.length,
+      openTag: `<mark data-highlight-id="${highlight.id}">`,
+    });
+  });
+
+  return ranges.length > 0 ? wrapRanges(index, ranges) : html;
+}
+
+export interface FindResult {
+  html: string;
+  count: number;
+}
+
+/**
+ * Mark every case-insensitive match of `query` with the `find-match`
+ * class, and the match at `currentIndex` with `find-match-current`
+ */
+export function applyFindMatches(html: string, query: string, currentIndex: number): FindResult {
+  const needle = normalizeWhitespace(query).toLowerCase();
+  if (!needle) return { html, count: 0 };
+
+  const index = indexText(html);
+  const haystack = index.plainText.toLowerCase();
+  const starts: number[] = [];
+  let from = haystack.indexOf(needle);
+  while (from !== -1) {
+    starts.push(from);
+    from = haystack.indexOf(needle, from + needle.length);
+  }
+
+  if (starts.length === 0) return { html, count: 0 };
+
+  const ranges = starts.map((start, matchIndex) => ({
+    start,
+    end: start + needle.length,
+    openTag: matchIndex === currentIndex
+      ? '<mark class="find-match find-match-current">'
+      : '<mark class="find-match">',
+  }));
+
+  return { html: wrapRanges(index, ranges), count: starts.length };
+}
+
+// ============================================================================
+// TABLE OF CONTENTS
+// ============================================================================
+
+export interface TocEntry {
+  index: number;
+  level: 1 | 2 | 3 | 4;
+  title: string;
+}
+
+export interface IndexedArticle {
+  html: string;
+  entries: TocEntry[];
+}
+
+/**
+ * Collect h1–h4 headings for the table of contents and tag each with
+ * `data-toc-index` so the rendered heading can be found again
+ */
+export function indexHeadings(html: string): IndexedArticle {
+  const entries: TocEntry[] = [];
+
+  const indexed = html.replace(
+    /<(h[1-4])(\s[^>]*)?>([\s\S]*?)<\/\1>/gi,
+    (match, tag: string, attributes: string | undefined, inner: string) => {
+      const title = normalizeWhitespace(decodeEntities(inner.replace(/<[^>]+>/g, '')));
+      if (!title) return match;
+
+      const index = entries.length;
+      entries.push({
+        index,
+        level: Number(tag[1]) as TocEntry['level'],
+        title,
+      });
+      return `<${tag}${attributes || ''} data-toc-index="${index}">${inner}</${tag}>`;
+    }
+  );
+
+  return { html: indexed, entries };
+}
+
+// ============================================================================
+// IMAGES
+// ============================================================================
+
+export interface ArticleImage {
+  index: number;
+  uri: string;
+  alt?: string;
+  caption?: string;
+  width?: number;
+  height?: number;
+}
+
+export interface ImageIndexedArticle {
+  html: string;
+  images: ArticleImage[];
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  if (!match) return undefined;
+  return decodeEntities(match[1] ?? match[2] ?? match[3]);
+}
+
+/**
+ * Resolve an image src against the article URL
+ */
+export function resolveUrl(src: string, baseUrl: string): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(src)) return src;
+
+  const origin = baseUrl.match(/^[a-z]+:\/\/[^/?#]+/i)?.[0];
+  if (!origin) return src;
+
+  if (src.startsWith('//')) return `${origin.split('//')[0]}${src}`;
+  if (src.startsWith('/')) return `${origin}${src}`;
+
+  const directory = baseUrl.split(/[?#]/)[0].replace(/[^/]*$/, '');
+  return `${directory}${src}`;
+}
+
+/**
+ * Collect the article's images in order, with captions from their
+ * `figcaption`, and tag each `img` with `data-image-index` so the
+ * rendered image can open the gallery at the right place
+ */
+export function indexImages(html: string, baseUrl: string): ImageIndexedArticle {
+  const images: ArticleImage[] = [];
+  // Images in the figure currently open, waiting for a caption
+  let figureImages: ArticleImage[] | null = null;
+  let figureCaption: string | undefined;
+
+  const indexed = html.replace(
+    /<figure\b[^>]*>|<\/figure>|<figcaption\b[^>]*>([\s\S]*?)<\/figcaption>|<img\b[^>]*>/gi,
+    (match, captionHtml: string | undefined) => {
+      const tag = match.toLowerCase();
+
+      if (tag.startsWith('<figure')) {
+        figureImages = [];
+        figureCaption = undefined;
+        return match;
+      }
+
+      if (tag.startsWith('</figure')) {
+        figureImages = null;
+        return match;
+      }
+
+      if (tag.startsWith('<figcaption')) {
+        const caption = normalizeWhitespace(decodeEntities((captionHtml || '').replace(/<[^>]+>/g, '')));
+        if (caption && figureImages) {
+          figureCaption = caption;
+          figureImages.forEach((image) => {
+            image.caption = caption;
+          });
+        }
+        return match;
+      }
+
+      const src = getAttribute(match, 'src') || getAttribute(match, 'data-src');
+      if (!src) return match;
+
+      const width = Number(getAttribute(match, 'width'));
+      const height = Number(getAttribute(match, 'height'));
+      const image: ArticleImage = {
+        index: images.length,
+        uri: resolveUrl(src, baseUrl),
+        alt: getAttribute(match, 'alt') || undefined,
+        caption: figureImages ? figureCaption : undefined,
+        width: width > 0 ? width : undefined,
+        height: height > 0 ? height : undefined,
+      };
+      images.push(image);
+      figureImages?.push(image);
+
+      return match.replace(/^<img\b/i, `<img data-image-index="${image.index}"`);
+    }
+  );
+
+  return { html: indexed, images };
+}
@@ -0,0 +1,207 @@
+/**
+ * Article Service
+ *
+ * Fetches reader-mode article content from the article parser
+ */
+
+import { db } from '@/config/firebase';
+import { collection, getDocs, query, where, limit } from 'firebase/firestore';
+
+const RECOMMENDER_URL = process.env.EXPO_PUBLIC_RECOMMENDER_URL || 'http://localhost:3000';
+
+export interface ArticleData {
+  title: string;
+  byline?: string;
+  content: string;
+  excerpt?: string;
+  siteName?: string;
+  publishedTime?: string;
+}
+
+export interface LinkPreview {
+  url: string;
+  title: string;
+  excerpt?: string;
+  siteName?: string;
+  // Catalog id when the link is an article we already have, otherwise an
+  // id derived from the URL so the link can still be bookmarked
+  contentId: string;
+  inCatalog: boolean;
+  tags: string[];
+}
+
+const MAX_CACHED_PREVIEWS = 50;
+const previewCache = new Map<string, LinkPreview>();
+
+// Parses started ahead of time, used once by the next parseArticle call
+const MAX_PREFETCHED_ARTICLES = 3;
+const prefetchedArticles = new Map<string, Promise<ArticleData>>();
+
+/**
+ * Parse an article URL into clean, readable HTML
+ */
+export async function parseArticle(url: string): Promise<ArticleData> {
+  const prefetched = prefetchedArticles.get(url);
+  if (prefetched) {
+    prefetchedArticles.delete(url);
+    return prefetched;
+  }
+
+  return fetchParsedArticle(url);
+}
+
+/**
+ * Start parsing an article the user is likely to open next, so opening
+ * it doesn't wait on the parser
+ */
+export function prefetchArticle(url: string): void {
+  if (prefetchedArticles.has(url)) return;
+
+  // Only the next article or two is ever needed; drop the oldest
+  if (prefetchedArticles.size >= MAX_PREFETCHED_ARTICLES) {
+    prefetchedArticles.delete(prefetchedArticles.keys().next().value!);
+  }
+
+  const pending = fetchParsedArticle(url);
+  prefetchedArticles.set(url, pending);
+
+  // A failed prefetch is dropped so opening the article tries again
+  pending.catch((error) => {
+    console.warn('Error prefetching article:', error);
+    if (prefetchedArticles.get(url) === pending) {
+      prefetchedArticles.delete(url);
+    }
+  });
+}
+
+async function fetchParsedArticle(url: string): Promise<ArticleData> {
+  const response = await fetch(
+    `${RECOMMENDER_URL}/article/parse?url=${encodeURIComponent(url)}`
+  );
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+
+  if (!data.success) {
+    throw new Error(data.error || 'Failed to parse article');
+  }
+
+  return {
+    title: data.title,
+    byline: data.byline,
+    content: data.content,
+    excerpt: data.excerpt,
+    siteName: data.siteName,
+    publishedTime: data.publishedTime,
+  };
+}
+
+/**
+ * Collect the absolute image URLs referenced by article HTML
+ */
+export function getArticleImageUrls(html: string): string[] {
+  const urls = new Set<string>();
+  const imgPattern = /<img[^>]+src=["']([^"']+)["']/gi;
+
+  let match: RegExpExecArray | null;
+  while ((match = imgPattern.exec(html)) !== null) {
+    if (/^https?:\/\//i.test(match[1])) {
+      urls.add(match[1]);
+    }
+  }
+
+  return Array.from(urls);
+}
+
+// Ids of links outside the catalog start with this
+const LINK_CONTENT_ID_PREFIX = 'link_';
+
+/**
+ * Stable id for a link outside the catalog, safe to use in document ids
+ */
+function getLinkContentId(url: string): string {
+  const normalized = url.toLowerCase().replace(/^https?:\/\//, '').replace(/\/$/, '');
+  let hash = 5381;
+  for (let i = 0; i < normalized.length; i++) {
+    hash = ((hash << 5) + hash + normalized.charCodeAt(i)) >>> 0;
+  }
+  return `${LINK_CONTENT_ID_PREFIX}${hash.toString(36)}_${normalized.length}`;
+}
+
+/**
+ * Whether an id is a catalog article's, rather than a link outside the
+ * catalog that was bookmarked. Only catalog ids are known to Gorse.
+ */
+export function isCatalogContentId(contentId: string): boolean {
+  return !contentId.startsWith(LINK_CONTENT_ID_PREFIX);
+}
+
+function getHostname(url: string): string {
+  const match = url.match(/^https?:\/\/(?:www\.)?([^/?#]+)/i);
+  return match ? match[1] : url;
+}
+
+/**
+ * Title and excerpt for a link found in an article. Articles already in
+ * the catalog are read from Firestore; anything else is parsed.
+ */
+export async function getLinkPreview(url: string): Promise<LinkPreview> {
+  const cached = previewCache.get(url);
+  if (cached) return cached;
+
+  let preview: LinkPreview | null = null;
+
+  try {
+    const snapshot = await getDocs(
+      query(collection(db, 'content'), where('url', '==', url), limit(1))
+    );
+    if (!snapshot.empty) {
+      const data = snapshot.docs[0].data();
+      preview = {
+        url,
+        title: data.title,
+        excerpt: data.excerpt,
+        siteName: getHostname(url),
+        contentId: snapshot.docs[0].id,
+        inCatalog: true,
+        tags: data.tags || [],
+      };
+    }
+  } catch (error) {
+    console.error('Error looking up link in catalog:', error);
+  }
+
+  if (!preview) {
+    try {
+      const article = await parseArticle(url);
+      preview = {
+        url,
+        title: article.title || getHostname(url),
+        excerpt: article.excerpt,
+        siteName: article.siteName || getHostname(url),
+        contentId: getLinkContentId(url),
+        inCatalog: false,
+        tags: [],
+      };
+    } catch (error) {
+      console.error('Error fetching link preview:', error);
+      // Not cached, so a later attempt can still succeed
+      return {
+        url,
+        title: getHostname(url),
+        contentId: getLinkContentId(url),
+        inCatalog: false,
+        tags: [],
+      };
+    }
+  }
+
+  if (previewCache.size >= MAX_CACHED_PREVIEWS) {
+    previewCache.delete(previewCache.keys().next().value!);
+  }
+  previewCache.set(url, preview);
+  return preview;
+}
@@ -7,7 +7,10 @@ import {
   getDocs, 
   query, 
   where,
-  serverTimestamp 
+  serverTimestamp,
+  onSnapshot,
+  DocumentData,
+  Unsubscribe,
 } from 'firebase/firestore';
 
 export interface Bookmark {
@@ -20,6 +23,18 @@ export interface Bookmark {
   bookmarkedAt: Date;
 }
 
+function toBookmark(data: DocumentData): Bookmark {
+  return {
+    userId: data.userId,
+    contentId: data.contentId,
+    title: data.title,
+    url: data.url,
+    excerpt: data.excerpt,
+    tags: data.tags || [],
+    bookmarkedAt: data.bookmarkedAt?.toDate() || new Date(),
+  };
+}
+
 /**
  * Save an article as a bookmark
  */
@@ -39,7 +54,9 @@ export async function saveBookmark(
       contentId,
       title,
       url,
-      excerpt,
+      // Firestore rejects undefined fields; links outside the catalog often
+      // have no excerpt
+      ...(excerpt && { excerpt }),
       tags,
       bookmarkedAt: serverTimestamp(),
     });
@@ -103,16 +120,7 @@ export async function getUserBookmarks(userId: string): Promise<Bookmark[]> {
     const bookmarks: Bookmark[] = [];
     
     snapshot.forEach((doc) => {
-      const data = doc.data();
-      bookmarks.push({
-        userId: data.userId,
-        contentId: data.contentId,
-        title: data.title,
-        url: data.url,
-        excerpt: data.excerpt,
-        tags: data.tags || [],
-        bookmarkedAt: data.bookmarkedAt?.toDate() || new Date(),
-      });
+      bookmarks.push(toBookmark(doc.data()));
     });
     
     return bookmarks;
@@ -121,3 +129,33 @@ export async function getUserBookmarks(userId: string): Promise<Bookmark[]> {
     return [];
   }
 }
+
+/**
+ * Subscribe to a user's bookmarks in real time
+ */
+export function subscribeToUserBookmarks(
+  userId: string,
+  onChange: (bookmarks: Bookmark[]) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  const bookmarksQuery = query(
+    collection(db, 'bookmarks'),
+    where('userId', '==', userId)
+  );
+
+  return onSnapshot(
+    bookmarksQuery,
+    (snapshot) => {
+      const bookmarks: Bookmark[] = [];
+      snapshot.forEach((doc) => {
+        // Estimate pending server timestamps so new bookmarks sort correctly
+        bookmarks.push(toBookmark(doc.data({ serverTimestamps: 'estimate' })));
+      });
+      onChange(bookmarks);
+    },
+    (error) => {
+      console.error('Error subscribing to bookmarks:', error);
+      onError?.(error);
+    }
+  );
+}
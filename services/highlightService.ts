@@ -0,0 +1,132 @@
+/**
+ * Highlight Service
+ *
+ * Passages a user has highlighted in the reader, with optional notes.
+ * Marking them in the article HTML is done by articleMarkup.
+ */
+
+import { db, auth } from '@/config/firebase';
+import {
+  collection,
+  doc,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  getDocs,
+  query,
+  where,
+  serverTimestamp,
+} from 'firebase/firestore';
+
+export interface Highlight {
+  id: string;
+  userId: string;
+  contentId: string;
+  text: string;
+  note?: string;
+  createdAt: Date;
+}
+
+function requireUserId(): string {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('User not authenticated');
+  }
+  return user.uid;
+}
+
+/**
+ * Get the current user's highlights for an article, in reading order
+ * of when they were made
+ */
+export async function getArticleHighlights(contentId: string): Promise<Highlight[]> {
+  try {
+    const userId = requireUserId();
+    const snapshot = await getDocs(
+      query(
+        collection(db, 'highlights'),
+        where('userId', '==', userId),
+        where('contentId', '==', contentId)
+      )
+    );
+
+    return snapshot.docs
+      .map((highlightDoc) => {
+        const data = highlightDoc.data({ serverTimestamps: 'estimate' });
+        return {
+          id: highlightDoc.id,
+          userId: data.userId,
+          contentId: data.contentId,
+          text: data.text,
+          note: data.note || undefined,
+          createdAt: data.createdAt?.toDate() || new Date(),
+        };
+      })
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  } catch (error) {
+    console.error('Error getting highlights:', error);
+    throw error;
+  }
+}
+
+/**
+ * Save a highlighted passage, optionally with a note
+ */
+export async function addHighlight(
+  contentId: string,
+  text: string,
+  note?: string
+): Promise<Highlight> {
+  try {
+    const userId = requireUserId();
+    const highlightRef = doc(collection(db, 'highlights'));
+    const trimmedNote = note?.trim() || null;
+
+    await setDoc(highlightRef, {
+      userId,
+      contentId,
+      text,
+      note: trimmedNote,
+      createdAt: serverTimestamp(),
+    });
+
+    console.log(`✓ Highlight saved on ${contentId}`);
+    return {
+      id: highlightRef.id,
+      userId,
+      contentId,
+      text,
+      note: trimmedNote || undefined,
+      createdAt: new Date(),
+    };
+  } catch (error) {
+    console.error('Error saving highlight:', error);
+    throw error;
+  }
+}
+
+/**
+ * Change or clear the note on a highlight
+ */
+export async function updateHighlightNote(highlightId: string, note: string): Promise<void> {
+  try {
+    await updateDoc(doc(db, 'highlights', highlightId), {
+      note: note.trim() || null,
+    });
+  } catch (error) {
+    console.error('Error updating highlight note:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a highlight
+ */
+export async function deleteHighlight(highlightId: string): Promise<void> {
+  try {
+    await deleteDoc(doc(db, 'highlights', highlightId));
+  } catch (error) {
+    console.error('Error deleting highlight:', error);
+    throw error;
+  }
+}
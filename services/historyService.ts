@@ -0,0 +1,211 @@
+/**
+ * History Service
+ *
+ * Reading history built from the user's `view` interactions
+ */
+
+import { db, auth } from '@/config/firebase';
+import {
+  collection,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  documentId,
+  QueryDocumentSnapshot,
+  DocumentData,
+} from 'firebase/firestore';
+import { retractInteraction } from '@/services/interactionService';
+import { dropQueuedInteractions } from '@/services/interactionOutbox';
+
+const RECOMMENDER_URL = process.env.EXPO_PUBLIC_RECOMMENDER_URL || 'http://localhost:3000';
+
+// Firestore 'in' queries accept at most 30 values
+const CONTENT_LOOKUP_CHUNK = 30;
+
+export interface HistoryEntry {
+  // Id of the underlying view interaction
+  eventId: string;
+  contentId: string;
+  viewedAt: Date;
+  title: string;
+  url?: string;
+  excerpt?: string;
+  tags: string[];
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  // Pass back to getReadingHistory to load the next page
+  cursor: QueryDocumentSnapshot<DocumentData> | null;
+  hasMore: boolean;
+}
+
+/**
+ * Look up article details for a set of content ids
+ */
+async function getContentDetails(contentIds: string[]): Promise<Map<string, DocumentData>> {
+  const details = new Map<string, DocumentData>();
+  const uniqueIds = Array.from(new Set(contentIds));
+
+  for (let i = 0; i < uniqueIds.length; i += CONTENT_LOOKUP_CHUNK) {
+    const chunk = uniqueIds.slice(i, i + CONTENT_LOOKUP_CHUNK);
+    const snapshot = await getDocs(
+      query(collection(db, 'content'), where(documentId(), 'in', chunk))
+    );
+    snapshot.forEach((doc) => details.set(doc.id, doc.data()));
+  }
+
+  return details;
+}
+
+/**
+ * Get a page of the current user's reading history, most recent first.
+ * Omit `cursor` for the first page.
+ */
+export async function getReadingHistory(
+  pageSize: number = 30,
+  cursor?: QueryDocumentSnapshot<DocumentData> | null
+): Promise<HistoryPage> {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const constraints = [
+      where('userId', '==', user.uid),
+      where('type', '==', 'view'),
+      orderBy('timestamp', 'desc'),
+      ...(cursor ? [startAfter(cursor)] : []),
+      limit(pageSize),
+    ];
+    const snapshot = await getDocs(query(collection(db, 'interactions'), ...constraints));
+
+    const details = await getContentDetails(snapshot.docs.map((doc) => doc.data().contentId));
+
+    const entries = snapshot.docs.map((doc) => {
+      const data = doc.data();
+      const content = details.get(data.contentId);
+
+      return {
+        eventId: doc.id,
+        contentId: data.contentId,
+        viewedAt: data.timestamp?.toDate() || new Date(),
+        // Content can be deleted after it was read
+        title: content?.title || 'Article no longer available',
+        url: content?.url,
+        excerpt: content?.excerpt,
+        tags: content?.tags || [],
+      };
+    });
+
+    return {
+      entries,
+      cursor: snapshot.docs[snapshot.docs.length - 1] || null,
+      hasMore: snapshot.docs.length === pageSize,
+    };
+  } catch (error) {
+    console.error('Error loading reading history:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove an article from one day of history: every view of it that day,
+ * including ones on pages not loaded yet or still waiting to be sent.
+ * Views are retracted like any other interaction; the server keeps the
+ * article's Gorse feedback while views on other days remain.
+ */
+export async function removeHistoryDay(contentId: string, day: Date): Promise<void> {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const start = new Date(day);
+    start.setHours(0, 0, 0, 0);
+    const end = new Date(start);
+    end.setDate(start.getDate() + 1);
+    const isOnDay = (date: Date) => date >= start && date < end;
+
+    await dropQueuedInteractions(
+      (event) =>
+        event.userId === user.uid &&
+        event.type === 'view' &&
+        event.contentId === contentId &&
+        isOnDay(new Date(event.createdAt))
+    );
+
+    // Equality filters only, so no composite index is needed; the day is
+    // checked here
+    const snapshot = await getDocs(
+      query(
+        collection(db, 'interactions'),
+        where('userId', '==', user.uid),
+        where('type', '==', 'view'),
+        where('contentId', '==', contentId)
+      )
+    );
+    const views = snapshot.docs.filter((doc) => isOnDay(doc.data().timestamp?.toDate() || new Date(0)));
+
+    await Promise.all(
+      views.map((doc) =>
+        retractInteraction({
+          eventId: doc.id,
+          userId: user.uid,
+          contentId,
+          type: 'view',
+        })
+      )
+    );
+  } catch (error) {
+    console.error('Error removing history entry:', error);
+    throw error;
+  }
+}
+
+/**
+ * Clear the current user's entire reading history. This runs on the
+ * server, which deletes every view in one pass instead of retracting
+ * them one at a time. Views not sent yet are dropped first so they
+ * don't refill the history afterwards.
+ */
+export async function clearReadingHistory(): Promise<number> {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    await dropQueuedInteractions((event) => event.userId === user.uid && event.type === 'view');
+
+    // The server only clears history for the signed-in user
+    const idToken = await user.getIdToken();
+    const response = await fetch(`${RECOMMENDER_URL}/interaction/clear`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: JSON.stringify({
+        userId: user.uid,
+        type: 'view',
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    console.log(`✓ Reading history cleared (${data.deleted} views)`);
+    return data.deleted;
+  } catch (error) {
+    console.error('Error clearing reading history:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,523 @@
+/**
+ * Interaction Outbox
+ *
+ * Persists interactions locally and delivers them to Firestore and Gorse
+ * in order, retrying with backoff so nothing is lost while offline.
+ * Events Firestore or the server won't accept are dropped rather than
+ * holding up everything queued behind them.
+ * Interactions recorded close together are sent as one batch.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { db } from '@/config/firebase';
+import { doc, setDoc, deleteDoc, writeBatch, Timestamp, FirestoreError } from 'firebase/firestore';
+
+const RECOMMENDER_URL = process.env.EXPO_PUBLIC_RECOMMENDER_URL || 'http://localhost:3000';
+
+const OUTBOX_STORAGE_KEY = 'interactionOutbox';
+const BASE_RETRY_DELAY_MS = 2 * 1000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Times Firestore or the server may turn an event down before it is
+// dropped. Network failures don't count, so events survive being offline.
+const MAX_REJECTIONS = 8;
+
+// Client errors that retrying can't fix. 404 (an older server), 408 and
+// 429 are worth retrying.
+const RETRYABLE_CLIENT_STATUSES = [404, 408, 429];
+// Firestore errors that retrying can't fix
+const PERMANENT_FIRESTORE_CODES = ['permission-denied', 'invalid-argument'];
+// Firestore errors that mean it couldn't be reached, like a network failure
+const TRANSIENT_FIRESTORE_CODES = ['unavailable', 'deadline-exceeded', 'cancelled'];
+
+// How long to wait for more interactions before sending, and the most
+// sent in one request (the server accepts up to 100)
+const BATCH_WINDOW_MS = 1500;
+const MAX_BATCH_SIZE = 50;
+
+export type InteractionMetadata = Record<string, string | number | boolean>;
+
+export interface OutboxEvent {
+  id: string;
+  userId: string;
+  contentId: string;
+  type: string;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  savedToFirestore: boolean;
+  // Times Firestore or the server turned the event down
+  rejections?: number;
+  // Deliver on its own: set after its batch was rejected, so one bad
+  // event can't hold back the others
+  deliverAlone?: boolean;
+  // Extra detail stored with the interaction, e.g. reading metrics
+  metadata?: InteractionMetadata;
+  // Set on retraction events: the earlier event being undone
+  retracts?: {
+    eventId: string;
+    type: string;
+  };
+}
+
+type DeliveredListener = (event: OutboxEvent) => void;
+
+/**
+ * The server answered a delivery with an error status
+ */
+class DeliveryRejectedError extends Error {
+  readonly permanent: boolean;
+
+  constructor(status: number) {
+    super(`HTTP ${status}`);
+    this.name = 'DeliveryRejectedError';
+    this.permanent = status >= 400 && status < 500 && !RETRYABLE_CLIENT_STATUSES.includes(status);
+  }
+}
+
+let queue: OutboxEvent[] | null = null;
+let loadPromise: Promise<OutboxEvent[]> | null = null;
+let flushPromise: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let batchTimer: ReturnType<typeof setTimeout> | null = null;
+const deliveringEventIds = new Set<string>();
+// Cleared when the server turns out not to have /interaction/sync-batch;
+// checked again next app session
+let batchSyncSupported = true;
+const deliveredListeners = new Set<DeliveredListener>();
+
+/**
+ * Load the queue from storage once per app session. Concurrent first
+ * callers share the load, so none of them gets a queue that is later
+ * replaced.
+ */
+function loadQueue(): Promise<OutboxEvent[]> {
+  loadPromise ??= (async () => {
+    try {
+      const raw = await AsyncStorage.getItem(OUTBOX_STORAGE_KEY);
+      queue = raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error('Error loading interaction outbox:', error);
+      queue = [];
+    }
+
+    return queue!;
+  })();
+
+  return loadPromise;
+}
+
+async function persistQueue(): Promise<void> {
+  try {
+    await AsyncStorage.setItem(OUTBOX_STORAGE_KEY, JSON.stringify(queue || []));
+  } catch (error) {
+    console.error('Error persisting interaction outbox:', error);
+  }
+}
+
+function generateEventId(userId: string, contentId: string, type: string): string {
+  const random = Math.random().toString(36).slice(2, 10);
+  return `${userId}_${contentId}_${type}_${Date.now()}_${random}`;
+}
+
+function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * How a failed delivery should be treated: dropped at once, counted
+ * towards MAX_REJECTIONS, or just retried
+ */
+function classifyFailure(error: unknown): 'permanent' | 'rejected' | 'transient' {
+  if (error instanceof DeliveryRejectedError) {
+    return error.permanent ? 'permanent' : 'rejected';
+  }
+  if (error instanceof FirestoreError) {
+    if (PERMANENT_FIRESTORE_CODES.includes(error.code)) return 'permanent';
+    return TRANSIENT_FIRESTORE_CODES.includes(error.code) ? 'transient' : 'rejected';
+  }
+  // fetch rejects with a TypeError when the network is down
+  return error instanceof TypeError ? 'transient' : 'rejected';
+}
+
+function toFirestoreInteraction(event: OutboxEvent) {
+  return {
+    userId: event.userId,
+    contentId: event.contentId,
+    type: event.type,
+    timestamp: Timestamp.fromDate(new Date(event.createdAt)),
+    ...(event.metadata && { metadata: event.metadata }),
+  };
+}
+
+/**
+ * One interaction as sent to `/interaction/sync`, and as each entry of
+ * `events` in `/interaction/sync-batch`
+ */
+function toSyncPayload(event: OutboxEvent) {
+  return {
+    eventId: event.id,
+    userId: event.userId,
+    contentId: event.contentId,
+    type: event.type,
+    timestamp: event.createdAt,
+    metadata: event.metadata,
+  };
+}
+
+async function syncEvent(event: OutboxEvent): Promise<void> {
+  const response = await fetch(`${RECOMMENDER_URL}/interaction/sync`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(toSyncPayload(event)),
+  });
+
+  if (!response.ok) {
+    throw new DeliveryRejectedError(response.status);
+  }
+}
+
+/**
+ * Deliver a single event. Each step is idempotent so replays are safe:
+ * the Firestore document id is the event id, and Gorse sync carries it
+ * so the server can drop duplicates.
+ */
+async function deliverEvent(event: OutboxEvent): Promise<void> {
+  if (event.retracts) {
+    await deliverRetraction(event);
+    return;
+  }
+
+  if (!event.savedToFirestore) {
+    await setDoc(doc(db, 'interactions', event.id), toFirestoreInteraction(event));
+    event.savedToFirestore = true;
+    await persistQueue();
+  }
+
+  await syncEvent(event);
+}
+
+/**
+ * Deliver several interactions with one Firestore batch write and one
+ * sync request. Servers without the batch endpoint get them one by one;
+ * the server drops any already synced, so a partial fallback can be
+ * replayed safely.
+ */
+async function deliverBatch(batch: OutboxEvent[]): Promise<void> {
+  const unsaved = batch.filter((event) => !event.savedToFirestore);
+  if (unsaved.length > 0) {
+    const firestoreBatch = writeBatch(db);
+    unsaved.forEach((event) => {
+      firestoreBatch.set(doc(db, 'interactions', event.id), toFirestoreInteraction(event));
+    });
+    await firestoreBatch.commit();
+    unsaved.forEach((event) => {
+      event.savedToFirestore = true;
+    });
+    await persistQueue();
+  }
+
+  if (batchSyncSupported) {
+    const response = await fetch(`${RECOMMENDER_URL}/interaction/sync-batch`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ events: batch.map(toSyncPayload) }),
+    });
+
+    if (response.ok) return;
+    if (response.status !== 404) {
+      throw new DeliveryRejectedError(response.status);
+    }
+
+    console.log('Batch interaction sync unavailable, syncing one at a time');
+    batchSyncSupported = false;
+  }
+
+  for (const event of batch) {
+    await syncEvent(event);
+  }
+}
+
+/**
+ * Events to deliver together from the front of the queue: consecutive
+ * interactions up to the batch size. Retractions always go alone, so
+ * they stay ordered after what they undo.
+ */
+function takeBatch(events: OutboxEvent[]): OutboxEvent[] {
+  if (events[0].retracts || events[0].deliverAlone) return [events[0]];
+
+  const batch: OutboxEvent[] = [];
+  for (const event of events) {
+    if (event.retracts || event.deliverAlone || batch.length >= MAX_BATCH_SIZE) break;
+    batch.push(event);
+  }
+  return batch;
+}
+
+/**
+ * Undo an earlier event in both stores. Deleting is idempotent, so a
+ * replayed retraction is harmless.
+ */
+async function deliverRetraction(event: OutboxEvent): Promise<void> {
+  const { eventId, type } = event.retracts!;
+
+  if (!event.savedToFirestore) {
+    await deleteDoc(doc(db, 'interactions', eventId));
+    event.savedToFirestore = true;
+    await persistQueue();
+  }
+
+  const response = await fetch(`${RECOMMENDER_URL}/interaction/retract`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      eventId: event.id,
+      retractsEventId: eventId,
+      userId: event.userId,
+      contentId: event.contentId,
+      type,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new DeliveryRejectedError(response.status);
+  }
+}
+
+function scheduleRetry(delayMs: number): void {
+  if (retryTimer) {
+    clearTimeout(retryTimer);
+  }
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushInteractionOutbox();
+  }, delayMs);
+}
+
+async function runFlush(): Promise<void> {
+  const events = await loadQueue();
+
+  while (events.length > 0) {
+    const event = events[0];
+
+    // Respect backoff; later events wait so ordering is preserved
+    const waitMs = event.nextAttemptAt - Date.now();
+    if (waitMs > 0) {
+      scheduleRetry(waitMs);
+      return;
+    }
+
+    const batch = takeBatch(events);
+
+    try {
+      batch.forEach((batchEvent) => deliveringEventIds.add(batchEvent.id));
+      if (batch.length === 1) {
+        await deliverEvent(event);
+      } else {
+        await deliverBatch(batch);
+      }
+    } catch (error) {
+      const failure = classifyFailure(error);
+
+      if (failure !== 'transient' && batch.length > 1) {
+        // Find out which event was turned down by sending them one by one
+        batch.forEach((batchEvent) => {
+          batchEvent.deliverAlone = true;
+        });
+        await persistQueue();
+        continue;
+      }
+
+      if (failure !== 'transient') {
+        event.rejections = (event.rejections ?? 0) + 1;
+
+        // Later interactions are held up behind this one; give up on it
+        if (failure === 'permanent' || event.rejections >= MAX_REJECTIONS) {
+          console.error(`Dropping undeliverable interaction ${event.type} on ${event.contentId}:`, error);
+          events.shift();
+          await persistQueue();
+          continue;
+        }
+      }
+
+      // The whole batch backs off together; the head's attempts set the delay
+      event.attempts += 1;
+      event.nextAttemptAt = Date.now() + getRetryDelay(event.attempts);
+      batch.forEach((batchEvent) => {
+        batchEvent.nextAttemptAt = event.nextAttemptAt;
+      });
+      await persistQueue();
+
+      console.warn(`Interaction delivery failed (attempt ${event.attempts}), retrying later:`, error);
+      scheduleRetry(event.nextAttemptAt - Date.now());
+      return;
+    } finally {
+      deliveringEventIds.clear();
+    }
+
+    events.splice(0, batch.length);
+    await persistQueue();
+
+    batch.forEach((delivered) => {
+      console.log(`✓ Interaction synced: ${delivered.type} on ${delivered.contentId}`);
+      deliveredListeners.forEach((listener) => listener(delivered));
+    });
+  }
+}
+
+/**
+ * Add an interaction to the outbox. It is persisted before this resolves,
+ * so it survives app restarts even if delivery has not happened yet.
+ */
+export async function enqueueInteraction(
+  userId: string,
+  contentId: string,
+  type: string,
+  metadata?: InteractionMetadata
+): Promise<OutboxEvent> {
+  const events = await loadQueue();
+  const createdAt = new Date().toISOString();
+
+  const event: OutboxEvent = {
+    id: generateEventId(userId, contentId, type),
+    userId,
+    contentId,
+    type,
+    createdAt,
+    attempts: 0,
+    nextAttemptAt: 0,
+    savedToFirestore: false,
+    ...(metadata && { metadata }),
+  };
+
+  events.push(event);
+  await persistQueue();
+
+  return event;
+}
+
+/**
+ * Retract an earlier event. If it hasn't started delivering yet it is
+ * simply dropped from the outbox; otherwise a retraction event is queued
+ * behind it so both stores end up without it.
+ */
+export async function enqueueRetraction(
+  original: Pick<OutboxEvent, 'id' | 'userId' | 'contentId' | 'type'>
+): Promise<void> {
+  const events = await loadQueue();
+  const index = events.findIndex((event) => event.id === original.id);
+
+  if (index !== -1 && !events[index].savedToFirestore && !deliveringEventIds.has(original.id)) {
+    events.splice(index, 1);
+    await persistQueue();
+    return;
+  }
+
+  events.push({
+    id: generateEventId(original.userId, original.contentId, 'retract'),
+    userId: original.userId,
+    contentId: original.contentId,
+    type: 'retract',
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: 0,
+    savedToFirestore: false,
+    retracts: {
+      eventId: original.id,
+      type: original.type,
+    },
+  });
+  await persistQueue();
+}
+
+/**
+ * Drop queued interactions that haven't been delivered, e.g. views when
+ * reading history is cleared, so they don't arrive afterwards. Matching
+ * events already being delivered can't be stopped; this waits for them
+ * so the caller can delete them once they have landed.
+ */
+export async function dropQueuedInteractions(
+  matches: (event: OutboxEvent) => boolean
+): Promise<void> {
+  const events = await loadQueue();
+  const inFlight = events.some((event) => matches(event) && deliveringEventIds.has(event.id));
+
+  // Events being delivered are at the front of the queue and stay there
+  const kept = events.filter(
+    (event) => event.retracts || !matches(event) || deliveringEventIds.has(event.id)
+  );
+  if (kept.length !== events.length) {
+    events.splice(0, events.length, ...kept);
+    await persistQueue();
+  }
+
+  if (inFlight && flushPromise) {
+    await flushPromise;
+  }
+}
+
+/**
+ * Deliver pending interactions in order. Safe to call at any time;
+ * concurrent calls share a single flush.
+ */
+export function flushInteractionOutbox(): Promise<void> {
+  if (!flushPromise) {
+    flushPromise = runFlush()
+      .catch((error) => {
+        console.error('Error flushing interaction outbox:', error);
+      })
+      .finally(() => {
+        flushPromise = null;
+
+        // Pick up anything enqueued while the last flush was finishing
+        if (queue && queue.length > 0 && !retryTimer) {
+          flushInteractionOutbox();
+        }
+      });
+  }
+
+  return flushPromise;
+}
+
+/**
+ * Flush once the batch window has passed, so interactions recorded in
+ * quick succession (e.g. fast swiping) go out in one request
+ */
+export function scheduleInteractionFlush(): void {
+  if (batchTimer) return;
+
+  batchTimer = setTimeout(() => {
+    batchTimer = null;
+    flushInteractionOutbox();
+  }, BATCH_WINDOW_MS);
+}
+
+/**
+ * Retry pending interactions immediately, ignoring any backoff
+ */
+export async function retryInteractionOutboxNow(): Promise<void> {
+  const events = await loadQueue();
+  events.forEach((event) => {
+    event.nextAttemptAt = 0;
+  });
+  await persistQueue();
+
+  return flushInteractionOutbox();
+}
+
+/**
+ * Subscribe to successfully delivered interactions
+ */
+export function onInteractionDelivered(listener: DeliveredListener): () => void {
+  deliveredListeners.add(listener);
+  return () => {
+    deliveredListeners.delete(listener);
+  };
+}
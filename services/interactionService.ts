@@ -5,54 +5,193 @@
  */
 
 import { db, auth } from '@/config/firebase';
-import { collection, addDoc, Timestamp, doc, updateDoc, increment, setDoc, getDoc } from 'firebase/firestore';
+import { Timestamp, doc, updateDoc, increment, setDoc, getDoc } from 'firebase/firestore';
+import {
+  InteractionMetadata,
+  enqueueInteraction,
+  enqueueRetraction,
+  scheduleInteractionFlush,
+  onInteractionDelivered,
+} from '@/services/interactionOutbox';
 
-const RECOMMENDER_URL = process.env.EXPO_PUBLIC_RECOMMENDER_URL || 'http://localhost:3000';
+export type InteractionType =
+  | 'like'
+  | 'dismiss'
+  | 'view'
+  | 'save'
+  | 'search_click'
+  | 'read_complete'
+  | 'bounced';
 
-export type InteractionType = 'like' | 'dismiss' | 'view' | 'save';
+export type InteractionSurface = 'feed' | 'reader' | 'search';
 
 /**
- * Save interaction to Firestore and sync to Gorse immediately
+ * Where an interaction happened and how the article got in front of the
+ * user, so ranking quality can be evaluated per surface
  */
-export async function saveInteraction(
-  contentId: string,
-  type: InteractionType
-): Promise<void> {
+export interface InteractionContext {
+  // Screen the interaction happened on
+  surface: InteractionSurface;
+  // Screen the article was opened from, for interactions in the reader
+  origin?: InteractionSurface;
+  // Zero-based position of the article in the list it was shown in
+  position?: number;
+  // Feed chip that was active ('all' or an interest)
+  filter?: string;
+  // Recommender that produced the article, and its score
+  recommendationSource?: 'gorse' | 'fallback';
+  score?: number;
+}
+
+/**
+ * An interaction to record. `details` holds type-specific values such as
+ * reading metrics; context is stored alongside them.
+ */
+export interface InteractionEvent {
+  contentId: string;
+  type: InteractionType;
+  context?: InteractionContext;
+  details?: InteractionMetadata;
+}
+
+/**
+ * How the user engaged with an article during one visit to the reader
+ */
+export interface ReadingMetrics {
+  // Time the article was on screen with the app in the foreground
+  dwellMs: number;
+  // Furthest point scrolled to, as a percentage of the article
+  scrollDepth: number;
+  reachedEnd: boolean;
+}
+
+// Reaching the end faster than this is skimming, not reading
+const READ_COMPLETE_MIN_DWELL_MS = 20 * 1000;
+// Leaving this quickly without scrolling far counts as a bounce
+const BOUNCE_MAX_DWELL_MS = 10 * 1000;
+const BOUNCE_MAX_SCROLL_DEPTH = 20;
+
+/**
+ * Handle for a recorded interaction, used to retract it later
+ */
+export interface InteractionReceipt {
+  eventId: string;
+  userId: string;
+  contentId: string;
+  type: InteractionType;
+}
+
+// Increment articlesRead once a view has actually been recorded
+onInteractionDelivered((event) => {
+  if (event.type === 'view') {
+    incrementArticlesRead(event.userId);
+  }
+});
+
+/**
+ * Context for an article opened in the reader from a list, keeping
+ * where it was listed
+ */
+export function getReaderContext(listing?: InteractionContext): InteractionContext {
+  if (!listing) return { surface: 'reader' };
+  return { ...listing, surface: 'reader', origin: listing.surface };
+}
+
+/**
+ * Flatten an event's context and details into the outbox metadata.
+ * Unset context fields are left out.
+ */
+function buildMetadata(event: InteractionEvent): InteractionMetadata | undefined {
+  const metadata: InteractionMetadata = { ...event.details };
+  if (event.context) {
+    Object.entries(event.context).forEach(([key, value]) => {
+      if (value !== undefined) metadata[key] = value;
+    });
+  }
+  return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
+
+/**
+ * Record an interaction in the durable outbox and start syncing it
+ * to Firestore and Gorse. Delivery is retried until it succeeds, so this
+ * only throws when the interaction could not be recorded at all.
+ */
+export async function recordInteraction(event: InteractionEvent): Promise<InteractionReceipt> {
   try {
     const user = auth.currentUser;
     if (!user) {
       throw new Error('User not authenticated');
     }
 
-    // Save to Firestore
-    await addDoc(collection(db, 'interactions'), {
-      userId: user.uid,
-      contentId,
-      type,
-      timestamp: Timestamp.now(),
-    });
+    const queued = await enqueueInteraction(user.uid, event.contentId, event.type, buildMetadata(event));
+    scheduleInteractionFlush();
+
+    return { eventId: queued.id, userId: user.uid, contentId: event.contentId, type: event.type };
+  } catch (error) {
+    console.error('Error saving interaction:', error);
+    throw error;
+  }
+}
+
+/**
+ * Shorthand for `recordInteraction` without details
+ */
+export async function saveInteraction(
+  contentId: string,
+  type: InteractionType,
+  context?: InteractionContext
+): Promise<InteractionReceipt> {
+  return recordInteraction({ contentId, type, context });
+}
 
-    // Sync to Gorse immediately for real-time learning
-    await fetch(`${RECOMMENDER_URL}/interaction/sync`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        userId: user.uid,
-        contentId,
-        type,
-      }),
+/**
+ * Record how a visit to the reader went. Engaged reads are sent as
+ * `read_complete` and quick exits as `bounced`; anything in between
+ * is already covered by the view. Returns null when nothing was sent.
+ */
+export async function recordReadingSession(
+  contentId: string,
+  metrics: ReadingMetrics,
+  context?: InteractionContext
+): Promise<InteractionReceipt | null> {
+  let type: InteractionType | null = null;
+  if (metrics.reachedEnd && metrics.dwellMs >= READ_COMPLETE_MIN_DWELL_MS) {
+    type = 'read_complete';
+  } else if (metrics.dwellMs < BOUNCE_MAX_DWELL_MS && metrics.scrollDepth < BOUNCE_MAX_SCROLL_DEPTH) {
+    type = 'bounced';
+  }
+
+  if (!type) return null;
+
+  return recordInteraction({
+    contentId,
+    type,
+    context,
+    details: {
+      dwellMs: Math.round(metrics.dwellMs),
+      scrollDepth: Math.round(metrics.scrollDepth),
+      reachedEnd: metrics.reachedEnd,
+    },
+  });
+}
+
+/**
+ * Retract a previously saved interaction (e.g. undoing an accidental
+ * dismiss) so it no longer counts as feedback in Firestore or Gorse
+ */
+export async function retractInteraction(receipt: InteractionReceipt): Promise<void> {
+  try {
+    await enqueueRetraction({
+      id: receipt.eventId,
+      userId: receipt.userId,
+      contentId: receipt.contentId,
+      type: receipt.type,
     });
+    scheduleInteractionFlush();
 
-    console.log(`✓ Interaction synced: ${type} on ${contentId}`);
-    
-    // Increment articlesRead counter when user views an article
-    if (type === 'view') {
-      await incrementArticlesRead(user.uid);
-    }
+    console.log(`✓ Interaction retracted: ${receipt.type} on ${receipt.contentId}`);
   } catch (error) {
-    console.error('Error saving interaction:', error);
+    console.error('Error retracting interaction:', error);
     throw error;
   }
 }
@@ -0,0 +1,112 @@
+/**
+ * Interest Service
+ *
+ * Reads and saves the user's weighted interests. Profiles from before
+ * weights are read with every interest at medium and upgraded on first
+ * read.
+ */
+
+import { db, auth } from '@/config/firebase';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { InterestWeight, WeightedInterest } from '@/types/user';
+
+export const INTEREST_WEIGHTS: InterestWeight[] = ['low', 'medium', 'high'];
+export const DEFAULT_INTEREST_WEIGHT: InterestWeight = 'medium';
+
+const WEIGHT_RANK: Record<InterestWeight, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+function isInterestWeight(value: unknown): value is InterestWeight {
+  return INTEREST_WEIGHTS.includes(value as InterestWeight);
+}
+
+/**
+ * Weighted interests from a user document, strongest first. Interests
+ * of equal weight keep their saved order.
+ */
+export function normalizeWeightedInterests(data: {
+  interests?: unknown;
+  interestWeights?: Record<string, unknown>;
+}): WeightedInterest[] {
+  const names = Array.isArray(data.interests)
+    ? data.interests.filter((name): name is string => typeof name === 'string')
+    : [];
+  const weights = data.interestWeights || {};
+
+  const seen = new Set<string>();
+  return names
+    .map((name) => name.toLowerCase())
+    .filter((name) => {
+      if (seen.has(name)) return false;
+      seen.add(name);
+      return true;
+    })
+    .map((name) => ({
+      name,
+      weight: isInterestWeight(weights[name]) ? weights[name] : DEFAULT_INTEREST_WEIGHT,
+    }))
+    .sort((a, b) => WEIGHT_RANK[b.weight] - WEIGHT_RANK[a.weight]);
+}
+
+/**
+ * Get the user's weighted interests, saving weights on profiles that
+ * don't have them yet
+ */
+export async function getWeightedInterests(): Promise<WeightedInterest[]> {
+  try {
+    const user = auth.currentUser;
+    if (!user) return [];
+
+    const userDoc = await getDoc(doc(db, 'users', user.uid));
+    if (!userDoc.exists()) return [];
+
+    const data = userDoc.data();
+    const interests = normalizeWeightedInterests(data);
+
+    if (!data.interestWeights && interests.length > 0) {
+      await saveWeightedInterests(interests);
+      console.log('✓ Migrated interests to weighted interests');
+    }
+
+    return interests;
+  } catch (error) {
+    console.error('Error loading interests:', error);
+    return [];
+  }
+}
+
+/**
+ * Save weighted interests. The plain `interests` list is kept in sync,
+ * strongest first, for older clients and Gorse user labels.
+ */
+export async function saveWeightedInterests(interests: WeightedInterest[]): Promise<void> {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const sorted = normalizeWeightedInterests({
+      interests: interests.map((interest) => interest.name),
+      interestWeights: Object.fromEntries(
+        interests.map((interest) => [interest.name.toLowerCase(), interest.weight])
+      ),
+    });
+
+    await setDoc(
+      doc(db, 'users', user.uid),
+      {
+        interests: sorted.map((interest) => interest.name),
+        interestWeights: Object.fromEntries(sorted.map((interest) => [interest.name, interest.weight])),
+        updatedAt: new Date().toISOString(),
+      },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error('Error saving interests:', error);
+    throw error;
+  }
+}
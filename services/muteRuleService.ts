@@ -0,0 +1,186 @@
+/**
+ * Mute Rule Service
+ *
+ * "Show less" rules on the user's profile: articles about a muted tag are
+ * ranked down and articles from a muted site are hidden, by both Gorse
+ * and fallback recommendations. Rules can expire.
+ */
+
+import { db, auth } from '@/config/firebase';
+import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
+
+export type MuteRuleKind = 'tag' | 'site';
+
+export interface MuteRule {
+  id: string;
+  kind: MuteRuleKind;
+  // Lowercase tag, or site host without "www."
+  value: string;
+  createdAt: Date;
+  // Null for rules that never expire
+  expiresAt: Date | null;
+}
+
+/**
+ * How long a rule can last, in days; null never expires
+ */
+export const MUTE_DURATIONS: (number | null)[] = [30, 90, null];
+export const DEFAULT_MUTE_DAYS = 30;
+
+interface StoredMuteRule {
+  id: string;
+  kind: MuteRuleKind;
+  value: string;
+  createdAt: Timestamp;
+  expiresAt: Timestamp | null;
+}
+
+function getExpiry(days: number | null): Timestamp | null {
+  return days === null ? null : Timestamp.fromMillis(Date.now() + days * 24 * 60 * 60 * 1000);
+}
+
+function isExpired(rule: StoredMuteRule): boolean {
+  return !!rule.expiresAt && rule.expiresAt.toMillis() <= Date.now();
+}
+
+/**
+ * Host of an article URL without "www.", as used by site rules
+ */
+export function getSiteFromUrl(url: string): string | null {
+  const host = url.match(/^[a-z][a-z0-9+.-]*:\/\/([^/?#:]+)/i)?.[1];
+  return host ? host.toLowerCase().replace(/^www\./, '') : null;
+}
+
+/**
+ * Whether an article falls under any of the rules. Used to take muted
+ * articles out of a feed that was loaded before the rule was added.
+ */
+export function matchesMuteRule(
+  item: { tags?: string[]; url?: string },
+  rules: Pick<MuteRule, 'kind' | 'value'>[]
+): boolean {
+  const site = item.url ? getSiteFromUrl(item.url) : null;
+  const tags = (item.tags || []).map((tag) => tag.toLowerCase());
+
+  return rules.some((rule) =>
+    rule.kind === 'tag'
+      ? tags.includes(rule.value)
+      : !!site && (site === rule.value || site.endsWith(`.${rule.value}`))
+  );
+}
+
+async function loadStoredRules(uid: string): Promise<StoredMuteRule[]> {
+  const userDoc = await getDoc(doc(db, 'users', uid));
+  return userDoc.exists() ? (userDoc.data().muteRules || []) : [];
+}
+
+/**
+ * Save the rules, dropping any that have expired
+ */
+async function saveStoredRules(uid: string, rules: StoredMuteRule[]): Promise<void> {
+  await setDoc(
+    doc(db, 'users', uid),
+    { muteRules: rules.filter((rule) => !isExpired(rule)) },
+    { merge: true }
+  );
+}
+
+/**
+ * Get the user's active mute rules, newest first
+ */
+export async function getMuteRules(): Promise<MuteRule[]> {
+  try {
+    const user = auth.currentUser;
+    if (!user) return [];
+
+    const stored = await loadStoredRules(user.uid);
+    return stored
+      .filter((rule) => !isExpired(rule))
+      .map((rule) => ({
+        id: rule.id,
+        kind: rule.kind,
+        value: rule.value,
+        createdAt: rule.createdAt.toDate(),
+        expiresAt: rule.expiresAt ? rule.expiresAt.toDate() : null,
+      }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  } catch (error) {
+    console.error('Error loading mute rules:', error);
+    return [];
+  }
+}
+
+/**
+ * Mute a tag or site. Muting something already muted restarts its expiry.
+ */
+export async function addMuteRule(
+  kind: MuteRuleKind,
+  value: string,
+  days: number | null = DEFAULT_MUTE_DAYS
+): Promise<void> {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const normalized = value.trim().toLowerCase();
+    const stored = await loadStoredRules(user.uid);
+    const others = stored.filter((rule) => !(rule.kind === kind && rule.value === normalized));
+
+    await saveStoredRules(user.uid, [
+      ...others,
+      {
+        id: `${kind}_${normalized}`,
+        kind,
+        value: normalized,
+        createdAt: Timestamp.now(),
+        expiresAt: getExpiry(days),
+      },
+    ]);
+
+    console.log(`✓ Muted ${kind}: ${normalized}`);
+  } catch (error) {
+    console.error('Error adding mute rule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Change how long a rule lasts, counted from now
+ */
+export async function updateMuteRuleExpiry(ruleId: string, days: number | null): Promise<void> {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const stored = await loadStoredRules(user.uid);
+    await saveStoredRules(
+      user.uid,
+      stored.map((rule) => (rule.id === ruleId ? { ...rule, expiresAt: getExpiry(days) } : rule))
+    );
+  } catch (error) {
+    console.error('Error updating mute rule:', error);
+    throw error;
+  }
+}
+
+/**
+ * Stop muting a tag or site
+ */
+export async function removeMuteRule(ruleId: string): Promise<void> {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('User not authenticated');
+    }
+
+    const stored = await loadStoredRules(user.uid);
+    await saveStoredRules(user.uid, stored.filter((rule) => rule.id !== ruleId));
+  } catch (error) {
+    console.error('Error removing mute rule:', error);
+    throw error;
+  }
+}
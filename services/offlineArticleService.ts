@@ -0,0 +1,270 @@
+/**
+ * Offline Article Service
+ *
+ * Keeps parsed copies of saved articles on the device so they can be
+ * read without a connection. Storage is capped and the least recently
+ * read articles are evicted first.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Image } from 'expo-image';
+import { ArticleData, parseArticle, getArticleImageUrls } from '@/services/articleService';
+
+const INDEX_STORAGE_KEY = 'offlineArticles:index';
+const ARTICLE_KEY_PREFIX = 'offlineArticle:';
+
+// AsyncStorage is limited to 6 MB on Android by default, so leave headroom
+// for the feed cache, outbox and settings
+export const OFFLINE_STORAGE_LIMIT_BYTES = 4 * 1024 * 1024;
+
+export interface OfflineArticleMeta {
+  contentId: string;
+  url: string;
+  title: string;
+  sizeBytes: number;
+  savedAt: number;
+  lastReadAt: number;
+}
+
+export interface OfflineStorageUsage {
+  articleCount: number;
+  usedBytes: number;
+  limitBytes: number;
+}
+
+export interface DownloadProgress {
+  completed: number;
+  total: number;
+  failed: number;
+}
+
+type OfflineIndex = Record<string, OfflineArticleMeta>;
+
+let index: OfflineIndex | null = null;
+// Serializes index updates so concurrent saves don't overwrite each other
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+function getArticleKey(contentId: string): string {
+  return `${ARTICLE_KEY_PREFIX}${contentId}`;
+}
+
+async function loadIndex(): Promise<OfflineIndex> {
+  if (index) return index;
+
+  try {
+    const raw = await AsyncStorage.getItem(INDEX_STORAGE_KEY);
+    index = raw ? JSON.parse(raw) : {};
+  } catch (error) {
+    console.error('Error loading offline article index:', error);
+    index = {};
+  }
+
+  return index!;
+}
+
+async function persistIndex(): Promise<void> {
+  await AsyncStorage.setItem(INDEX_STORAGE_KEY, JSON.stringify(index || {}));
+}
+
+function withIndexLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = pendingWrite.then(task, task);
+  pendingWrite = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Evict least recently read articles until `incomingBytes` fits
+ */
+async function evictForSpace(entries: OfflineIndex, incomingBytes: number): Promise<void> {
+  let usedBytes = Object.values(entries).reduce((total, meta) => total + meta.sizeBytes, 0);
+  const byLastRead = Object.values(entries).sort((a, b) => a.lastReadAt - b.lastReadAt);
+
+  for (const meta of byLastRead) {
+    if (usedBytes + incomingBytes <= OFFLINE_STORAGE_LIMIT_BYTES) break;
+
+    await AsyncStorage.removeItem(getArticleKey(meta.contentId));
+    delete entries[meta.contentId];
+    usedBytes -= meta.sizeBytes;
+    console.log(`Evicted offline article ${meta.contentId} to free space`);
+  }
+}
+
+/**
+ * Store a parsed article for offline reading. Images are prefetched
+ * into the image disk cache alongside it.
+ */
+export async function saveOfflineArticle(
+  contentId: string,
+  url: string,
+  article: ArticleData
+): Promise<void> {
+  const serialized = JSON.stringify(article);
+  // Stored as UTF-16, so each character costs two bytes
+  const sizeBytes = serialized.length * 2;
+
+  if (sizeBytes > OFFLINE_STORAGE_LIMIT_BYTES) {
+    console.warn(`Article ${contentId} is too large to store offline`);
+    return;
+  }
+
+  await withIndexLock(async () => {
+    const entries = await loadIndex();
+    const existing = entries[contentId];
+    if (existing) {
+      delete entries[contentId];
+    }
+
+    await evictForSpace(entries, sizeBytes);
+    await AsyncStorage.setItem(getArticleKey(contentId), serialized);
+
+    const now = Date.now();
+    entries[contentId] = {
+      contentId,
+      url,
+      title: article.title,
+      sizeBytes,
+      savedAt: existing?.savedAt || now,
+      lastReadAt: now,
+    };
+    await persistIndex();
+  });
+
+  const imageUrls = getArticleImageUrls(article.content);
+  if (imageUrls.length > 0) {
+    Image.prefetch(imageUrls, 'disk').catch((error) => {
+      console.warn('Error prefetching article images:', error);
+    });
+  }
+}
+
+/**
+ * Get an offline copy of an article, or null if there isn't one.
+ * Reading it marks it as recently used.
+ */
+export async function getOfflineArticle(contentId: string): Promise<ArticleData | null> {
+  try {
+    const entries = await loadIndex();
+    if (!entries[contentId]) return null;
+
+    const raw = await AsyncStorage.getItem(getArticleKey(contentId));
+    if (!raw) {
+      await withIndexLock(async () => {
+        delete entries[contentId];
+        await persistIndex();
+      });
+      return null;
+    }
+
+    await withIndexLock(async () => {
+      if (entries[contentId]) {
+        entries[contentId].lastReadAt = Date.now();
+        await persistIndex();
+      }
+    });
+
+    return JSON.parse(raw);
+  } catch (error) {
+    console.error('Error loading offline article:', error);
+    return null;
+  }
+}
+
+/**
+ * Whether an article is available offline
+ */
+export async function isArticleOffline(contentId: string): Promise<boolean> {
+  const entries = await loadIndex();
+  return !!entries[contentId];
+}
+
+/**
+ * Parse and store an article unless it's already available offline
+ */
+export async function downloadArticle(contentId: string, url: string): Promise<void> {
+  if (await isArticleOffline(contentId)) return;
+
+  const article = await parseArticle(url);
+  await saveOfflineArticle(contentId, url, article);
+}
+
+/**
+ * Download every given article that isn't stored yet, one at a time
+ */
+export async function downloadArticles(
+  articles: { contentId: string; url: string }[],
+  onProgress?: (progress: DownloadProgress) => void
+): Promise<DownloadProgress> {
+  const progress: DownloadProgress = { completed: 0, total: articles.length, failed: 0 };
+  onProgress?.({ ...progress });
+
+  for (const { contentId, url } of articles) {
+    try {
+      if (url) {
+        await downloadArticle(contentId, url);
+      }
+    } catch (error) {
+      console.warn(`Failed to download article ${contentId}:`, error);
+      progress.failed += 1;
+    }
+
+    progress.completed += 1;
+    onProgress?.({ ...progress });
+  }
+
+  return progress;
+}
+
+/**
+ * Delete the offline copy of an article
+ */
+export async function removeOfflineArticle(contentId: string): Promise<void> {
+  try {
+    await withIndexLock(async () => {
+      const entries = await loadIndex();
+      if (!entries[contentId]) return;
+
+      await AsyncStorage.removeItem(getArticleKey(contentId));
+      delete entries[contentId];
+      await persistIndex();
+    });
+  } catch (error) {
+    console.error('Error removing offline article:', error);
+  }
+}
+
+/**
+ * Delete all offline articles
+ */
+export async function clearOfflineArticles(): Promise<void> {
+  try {
+    await withIndexLock(async () => {
+      const entries = await loadIndex();
+      await AsyncStorage.multiRemove(Object.keys(entries).map(getArticleKey));
+      index = {};
+      await persistIndex();
+    });
+  } catch (error) {
+    console.error('Error clearing offline articles:', error);
+    throw error;
+  }
+}
+
+/**
+ * How much space offline articles are using
+ */
+export async function getOfflineStorageUsage(): Promise<OfflineStorageUsage> {
+  const entries = Object.values(await loadIndex());
+
+  return {
+    articleCount: entries.length,
+    usedBytes: entries.reduce((total, meta) => total + meta.sizeBytes, 0),
+    limitBytes: OFFLINE_STORAGE_LIMIT_BYTES,
+  };
+}
+
+/**
+ * Content ids of every article stored offline
+ */
+export async function getOfflineArticleIds(): Promise<string[]> {
+  return Object.keys(await loadIndex());
+}
@@ -0,0 +1,89 @@
+/**
+ * Reader Queue
+ *
+ * The ordered list of articles the reader was opened from (e.g. the feed),
+ * so the reader can move to the next one without going back. Kept in
+ * memory rather than in route params, which would have to carry the
+ * whole list.
+ */
+
+import type { InteractionContext } from '@/services/interactionService';
+
+export interface ReaderQueueItem {
+  contentId: string;
+  url: string;
+  title: string;
+  // Where the article was listed, carried into interactions in the reader
+  context?: InteractionContext;
+}
+
+interface ReaderQueue {
+  id: string;
+  items: ReaderQueueItem[];
+  // Last article opened from this queue, so the source screen can
+  // scroll back to it
+  lastReadContentId: string | null;
+}
+
+const queues = new Map<string, ReaderQueue>();
+
+/**
+ * Replace the queue for a source screen. Pass the queue id to `/reader`
+ * as the `queue` param.
+ */
+export function setReaderQueue(id: string, items: ReaderQueueItem[]): void {
+  queues.set(id, {
+    id,
+    items: items.filter((item) => item.url),
+    lastReadContentId: queues.get(id)?.lastReadContentId ?? null,
+  });
+}
+
+export interface QueueNeighbors {
+  current: ReaderQueueItem | null;
+  previous: ReaderQueueItem | null;
+  next: ReaderQueueItem | null;
+  position: number;
+  total: number;
+}
+
+/**
+ * An article's entry in a queue, with the articles before and after it
+ */
+export function getQueueNeighbors(id: string, contentId: string): QueueNeighbors {
+  const queue = queues.get(id);
+  const index = queue ? queue.items.findIndex((item) => item.contentId === contentId) : -1;
+  if (!queue || index === -1) {
+    return { current: null, previous: null, next: null, position: -1, total: 0 };
+  }
+
+  return {
+    current: queue.items[index],
+    previous: queue.items[index - 1] ?? null,
+    next: queue.items[index + 1] ?? null,
+    position: index,
+    total: queue.items.length,
+  };
+}
+
+/**
+ * Remember the article the user is reading from a queue
+ */
+export function markQueueItemRead(id: string, contentId: string): void {
+  const queue = queues.get(id);
+  if (queue) {
+    queue.lastReadContentId = contentId;
+  }
+}
+
+/**
+ * Get and clear the last article read from a queue
+ */
+export function takeLastReadContentId(id: string): string | null {
+  const queue = queues.get(id);
+  if (!queue) return null;
+
+  const contentId = queue.lastReadContentId;
+  queue.lastReadContentId = null;
+  return contentId;
+}
@@ -0,0 +1,133 @@
+/**
+ * Reader Settings Service
+ *
+ * Persists the user's reader typography and theme on the device, so the
+ * reader opens instantly, and on their profile, so it follows them
+ * across devices
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { db, auth } from '@/config/firebase';
+import { doc, getDoc, setDoc } from 'firebase/firestore';
+import { ReaderSettings, normalizeReaderSettings } from '@/constants/readerTheme';
+
+const READER_SETTINGS_KEY_PREFIX = 'readerSettings:';
+
+// Settings as stored on the device and the profile. `updatedAt` (ms) says
+// which copy is newer; copies saved before it existed count as oldest.
+type StoredReaderSettings = Partial<ReaderSettings> & { updatedAt?: number };
+
+function getLocalKey(uid: string): string {
+  return `${READER_SETTINGS_KEY_PREFIX}${uid}`;
+}
+
+function fromStored(stored: StoredReaderSettings | null): { settings: ReaderSettings; updatedAt: number } {
+  const { updatedAt = 0, ...settings } = stored || {};
+  return { settings: normalizeReaderSettings(settings), updatedAt };
+}
+
+async function loadLocal(uid: string): Promise<StoredReaderSettings | null> {
+  const raw = await AsyncStorage.getItem(getLocalKey(uid));
+  return raw ? JSON.parse(raw) : null;
+}
+
+async function storeLocal(uid: string, settings: ReaderSettings, updatedAt: number): Promise<void> {
+  await AsyncStorage.setItem(getLocalKey(uid), JSON.stringify({ ...settings, updatedAt }));
+}
+
+async function storeOnProfile(uid: string, settings: ReaderSettings, updatedAt: number): Promise<void> {
+  await setDoc(
+    doc(db, 'users', uid),
+    { readerSettings: { ...settings, updatedAt } },
+    { merge: true }
+  );
+}
+
+/**
+ * Get the reader settings stored on this device, or the defaults
+ */
+export async function getLocalReaderSettings(): Promise<ReaderSettings> {
+  try {
+    const user = auth.currentUser;
+    if (!user) return normalizeReaderSettings();
+
+    return fromStored(await loadLocal(user.uid)).settings;
+  } catch (error) {
+    console.error('Error loading reader settings:', error);
+    return normalizeReaderSettings();
+  }
+}
+
+/**
+ * Reconcile this device's reader settings with the profile's, keeping
+ * whichever copy was changed last. Returns the profile's settings when
+ * they are newer (and stores them locally); returns null when the local
+ * copy should stay, pushing it to the profile if it hasn't synced yet.
+ */
+export async function getProfileReaderSettings(): Promise<ReaderSettings | null> {
+  try {
+    const user = auth.currentUser;
+    if (!user) return null;
+
+    const userDoc = await getDoc(doc(db, 'users', user.uid));
+    const stored = userDoc.exists() ? userDoc.data().readerSettings : null;
+
+    // Read the local copy after the profile, so edits made meanwhile count
+    const localStored = await loadLocal(user.uid);
+    const local = fromStored(localStored);
+
+    if (stored) {
+      const remote = fromStored(stored);
+      if (remote.updatedAt > local.updatedAt || !localStored) {
+        await storeLocal(user.uid, remote.settings, remote.updatedAt);
+        return remote.settings;
+      }
+      if (remote.updatedAt === local.updatedAt) return null;
+    }
+
+    if (localStored && local.updatedAt > 0) {
+      await storeOnProfile(user.uid, local.settings, local.updatedAt);
+    }
+    return null;
+  } catch (error) {
+    console.error('Error loading reader settings from profile:', error);
+    return null;
+  }
+}
+
+/**
+ * Save reader settings on this device only. Use while the user is still
+ * adjusting, then call saveReaderSettings once they're done.
+ */
+export async function saveLocalReaderSettings(settings: ReaderSettings): Promise<void> {
+  try {
+    const user = auth.currentUser;
+    if (!user) return;
+
+    await storeLocal(user.uid, settings, Date.now());
+  } catch (error) {
+    console.error('Error saving reader settings:', error);
+  }
+}
+
+/**
+ * Save reader settings on this device and on the user's profile
+ */
+export async function saveReaderSettings(settings: ReaderSettings): Promise<void> {
+  const user = auth.currentUser;
+  if (!user) return;
+
+  const updatedAt = Date.now();
+  try {
+    await storeLocal(user.uid, settings, updatedAt);
+  } catch (error) {
+    console.error('Error saving reader settings:', error);
+  }
+
+  try {
+    await storeOnProfile(user.uid, settings, updatedAt);
+    console.log('✓ Reader settings saved to profile');
+  } catch (error) {
+    console.error('Error saving reader settings to profile:', error);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Reading Position Service
+ *
+ * Remembers how far the user got in each article, on the device so the
+ * position is there offline and in Firestore so it follows them across
+ * devices
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { db, auth } from '@/config/firebase';
+import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
+
+const READING_POSITIONS_KEY_PREFIX = 'readingPositions:';
+const MAX_LOCAL_POSITIONS = 200;
+
+export interface ReadingPosition {
+  contentId: string;
+  // Scroll position as a percentage of the scrollable height. Pixel
+  // offsets depend on screen width and text size, so they aren't stored.
+  progress: number;
+  updatedAt: Date;
+}
+
+type StoredPositions = Record<string, { progress: number; updatedAt: number }>;
+
+function getLocalKey(uid: string): string {
+  return `${READING_POSITIONS_KEY_PREFIX}${uid}`;
+}
+
+async function readLocalPositions(uid: string): Promise<StoredPositions> {
+  const raw = await AsyncStorage.getItem(getLocalKey(uid));
+  return raw ? JSON.parse(raw) : {};
+}
+
+async function writeLocalPosition(uid: string, position: ReadingPosition): Promise<void> {
+  const positions = await readLocalPositions(uid);
+  positions[position.contentId] = {
+    progress: position.progress,
+    updatedAt: position.updatedAt.getTime(),
+  };
+
+  // Keep only the most recently read articles
+  const entries = Object.entries(positions);
+  const trimmed = entries.length > MAX_LOCAL_POSITIONS
+    ? Object.fromEntries(
+        entries
+          .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+          .slice(0, MAX_LOCAL_POSITIONS)
+      )
+    : positions;
+
+  await AsyncStorage.setItem(getLocalKey(uid), JSON.stringify(trimmed));
+}
+
+/**
+ * Get the saved position for an article, whichever of the device and
+ * Firestore copies is newer. Returns null if the article hasn't been read.
+ */
+export async function getReadingPosition(contentId: string): Promise<ReadingPosition | null> {
+  const user = auth.currentUser;
+  if (!user) return null;
+
+  let local: ReadingPosition | null = null;
+  try {
+    const stored = (await readLocalPositions(user.uid))[contentId];
+    if (stored) {
+      local = { contentId, progress: stored.progress, updatedAt: new Date(stored.updatedAt) };
+    }
+  } catch (error) {
+    console.error('Error loading local reading position:', error);
+  }
+
+  let remote: ReadingPosition | null = null;
+  try {
+    const positionDoc = await getDoc(doc(db, 'readingPositions', `${user.uid}_${contentId}`));
+    if (positionDoc.exists()) {
+      const data = positionDoc.data();
+      remote = {
+        contentId,
+        progress: data.progress,
+        updatedAt: data.updatedAt?.toDate() || new Date(0),
+      };
+    }
+  } catch (error) {
+    console.error('Error loading reading position:', error);
+  }
+
+  if (remote && (!local || remote.updatedAt > local.updatedAt)) {
+    // Refresh the device copy so it's there next time we're offline
+    writeLocalPosition(user.uid, remote).catch((error) => {
+      console.error('Error caching reading position:', error);
+    });
+    return remote;
+  }
+  return local;
+}
+
+/**
+ * Save the user's position in an article on this device and in Firestore
+ */
+export async function saveReadingPosition(contentId: string, progress: number): Promise<void> {
+  const user = auth.currentUser;
+  if (!user) return;
+
+  const position: ReadingPosition = {
+    contentId,
+    progress: Math.round(Math.min(Math.max(progress, 0), 100) * 10) / 10,
+    updatedAt: new Date(),
+  };
+
+  try {
+    await writeLocalPosition(user.uid, position);
+  } catch (error) {
+    console.error('Error saving local reading position:', error);
+  }
+
+  try {
+    // Client time rather than serverTimestamp, so it compares directly
+    // with the device copy
+    await setDoc(doc(db, 'readingPositions', `${user.uid}_${contentId}`), {
+      userId: user.uid,
+      contentId,
+      progress: position.progress,
+      updatedAt: Timestamp.fromDate(position.updatedAt),
+    });
+  } catch (error) {
+    console.error('Error saving reading position:', error);
+  }
+}
@@ -5,8 +5,22 @@
  * from the Gorse sync service
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { auth } from '@/config/firebase';
 
+/**
+ * Why an item was recommended. An item can have several, strongest first.
+ */
+export type RecommendationReason =
+  // Tags matched these interests
+  | { kind: 'interest_match'; matchedTags: string[] }
+  // Similar to an article the user liked
+  | { kind: 'similar_to_liked'; similarTo: { contentId: string; title: string } }
+  // Popular with other readers right now
+  | { kind: 'trending' }
+  // Published in the last few days
+  | { kind: 'recent'; publishedAt: string };
+
 export interface RecommendationItem {
   contentId: string;
   score: number;
@@ -15,6 +29,8 @@ export interface RecommendationItem {
   tags?: string[];
   publishedAt?: string;
   url?: string;
+  // Missing from servers that predate explanations
+  reasons?: RecommendationReason[];
 }
 
 export interface RecommendationResponse {
@@ -22,23 +38,66 @@ export interface RecommendationResponse {
   source: 'gorse' | 'fallback';
   cached?: boolean;
   reason?: string;
+  // Opaque cursor for the next page; pass back to getRecommendations
+  nextCursor?: string | null;
+  hasMore?: boolean;
+}
+
+export interface RecommendationOptions {
+  // Opaque cursor from a previous response's `nextCursor`
+  cursor?: string | null;
+  // Restrict the stream to a single topic (tag)
+  topic?: string | null;
+}
+
+export interface CachedRecommendations {
+  response: RecommendationResponse;
+  savedAt: Date;
+}
+
+/**
+ * The server no longer has the ranking a cursor points into: its snapshot
+ * expired or the server restarted. The stream has to start over.
+ */
+export class CursorExpiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CursorExpiredError';
+  }
 }
 
 // Get recommender service URL from environment
 const RECOMMENDER_URL = process.env.EXPO_PUBLIC_RECOMMENDER_URL || 'http://localhost:3000';
 
+// Last successful feed, stored per user and topic so it can be shown offline
+const FEED_CACHE_KEY_PREFIX = 'feedCache:';
+
+function getFeedCacheKey(uid: string, topic?: string | null): string {
+  return topic ? `${FEED_CACHE_KEY_PREFIX}${uid}:${topic}` : `${FEED_CACHE_KEY_PREFIX}${uid}`;
+}
+
 /**
- * Fetch personalized recommendations for the current user
+ * Fetch a page of personalized recommendations for the current user.
+ * Omit `cursor` for the first page; pass the previous response's
+ * `nextCursor` to continue. With `topic`, the stream only contains
+ * content tagged with that topic.
  */
-export async function getRecommendations(count: number = 20): Promise<RecommendationResponse> {
+export async function getRecommendations(
+  count: number = 20,
+  options: RecommendationOptions = {}
+): Promise<RecommendationResponse> {
+  const { cursor, topic } = options;
+
   try {
     const user = auth.currentUser;
     if (!user) {
       throw new Error('User not authenticated');
     }
 
+    const cursorParam = cursor ? `&cursor=${encodeURIComponent(cursor)}` : '';
+    const topicParam = topic ? `&topic=${encodeURIComponent(topic.toLowerCase())}` : '';
     const response = await fetch(
-      `${RECOMMENDER_URL}/recommendations?uid=${user.uid}&count=${count}`,
+      `${RECOMMENDER_URL}/recommendations?uid=${user.uid}&count=${count}${cursorParam}${topicParam}`,
       {
         method: 'GET',
         headers: {
@@ -49,10 +108,18 @@ export async function getRecommendations(count: number = 20): Promise<Recommenda
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
+      if (cursor && (errorData.error === 'cursor_expired' || errorData.error === 'invalid_cursor')) {
+        throw new CursorExpiredError(errorData.message || `HTTP ${response.status}`);
+      }
       throw new Error(errorData.message || `HTTP ${response.status}`);
     }
 
-    const data = await response.json();
+    const data: RecommendationResponse = await response.json();
+    
+    // Only the first page of each stream is kept for offline use
+    if (!cursor) {
+      await saveRecommendationsToCache(user.uid, data, topic);
+    }
     return data;
   } catch (error: any) {
     console.error('Error fetching recommendations:', error);
@@ -60,6 +127,70 @@ export async function getRecommendations(count: number = 20): Promise<Recommenda
   }
 }
 
+/**
+ * Persist the last successful recommendation response for offline use
+ */
+async function saveRecommendationsToCache(
+  uid: string,
+  response: RecommendationResponse,
+  topic?: string | null
+): Promise<void> {
+  try {
+    await AsyncStorage.setItem(
+      getFeedCacheKey(uid, topic),
+      JSON.stringify({ response, savedAt: new Date().toISOString() })
+    );
+  } catch (error) {
+    console.error('Error saving feed cache:', error);
+  }
+}
+
+/**
+ * Load the last successful recommendation response for the current user
+ */
+export async function getCachedRecommendations(
+  topic?: string | null
+): Promise<CachedRecommendations | null> {
+  try {
+    const user = auth.currentUser;
+    if (!user) return null;
+
+    const raw = await AsyncStorage.getItem(getFeedCacheKey(user.uid, topic));
+    if (!raw) return null;
+
+    const parsed = JSON.parse(raw);
+    return {
+      response: parsed.response,
+      savedAt: new Date(parsed.savedAt),
+    };
+  } catch (error) {
+    console.error('Error loading feed cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Count available content for each topic, for feed chip badges
+ */
+export async function getTopicCounts(topics: string[]): Promise<Record<string, number>> {
+  if (topics.length === 0) return {};
+
+  try {
+    const topicsParam = encodeURIComponent(topics.map(topic => topic.toLowerCase()).join(','));
+    const response = await fetch(`${RECOMMENDER_URL}/recommendations/topics?topics=${topicsParam}`);
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.counts || {};
+  } catch (error) {
+    console.error('Error fetching topic counts:', error);
+    return {};
+  }
+}
+
 /**
  * Invalidate recommendation cache (call after interests change)
  */
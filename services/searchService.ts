@@ -0,0 +1,133 @@
+/**
+ * Search Service
+ *
+ * Searches the content catalogue by title, excerpt and tags, and keeps
+ * the user's recent searches on the device
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { auth } from '@/config/firebase';
+import { RecommendationItem } from '@/services/recommendationService';
+
+export interface SearchResults {
+  // Best matches first
+  items: RecommendationItem[];
+  // Every match in the catalogue; more than `items.length` when the
+  // results were cut off
+  total: number;
+}
+
+// Search runs on the sync server, which indexes the whole catalogue
+const RECOMMENDER_URL = process.env.EXPO_PUBLIC_RECOMMENDER_URL || 'http://localhost:3000';
+
+const RECENT_SEARCHES_KEY_PREFIX = 'recentSearches:';
+const MAX_RECENT_SEARCHES = 10;
+
+/**
+ * Search content by title, excerpt and tags. Results use the same shape
+ * as recommendations, with `score` as relevance between 0 and 1.
+ */
+export async function searchContent(
+  text: string,
+  count: number = 30
+): Promise<SearchResults> {
+  try {
+    const response = await fetch(
+      `${RECOMMENDER_URL}/search?q=${encodeURIComponent(text.trim())}&count=${count}`,
+      {
+        method: 'GET',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.message || `HTTP ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error searching content:', error);
+    throw error;
+  }
+}
+
+function getRecentSearchesKey(): string | null {
+  const user = auth.currentUser;
+  return user ? `${RECENT_SEARCHES_KEY_PREFIX}${user.uid}` : null;
+}
+
+/**
+ * Get the current user's recent searches, most recent first
+ */
+export async function getRecentSearches(): Promise<string[]> {
+  try {
+    const key = getRecentSearchesKey();
+    if (!key) return [];
+
+    const raw = await AsyncStorage.getItem(key);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('Error loading recent searches:', error);
+    return [];
+  }
+}
+
+/**
+ * Move a search to the top of the recent list
+ */
+export async function addRecentSearch(text: string): Promise<string[]> {
+  const search = text.trim();
+  const recent = await getRecentSearches();
+  if (!search) return recent;
+
+  const updated = [
+    search,
+    ...recent.filter(item => item.toLowerCase() !== search.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES);
+
+  try {
+    const key = getRecentSearchesKey();
+    if (key) {
+      await AsyncStorage.setItem(key, JSON.stringify(updated));
+    }
+  } catch (error) {
+    console.error('Error saving recent search:', error);
+  }
+
+  return updated;
+}
+
+/**
+ * Remove a single recent search
+ */
+export async function removeRecentSearch(text: string): Promise<string[]> {
+  const updated = (await getRecentSearches()).filter(item => item !== text);
+
+  try {
+    const key = getRecentSearchesKey();
+    if (key) {
+      await AsyncStorage.setItem(key, JSON.stringify(updated));
+    }
+  } catch (error) {
+    console.error('Error removing recent search:', error);
+  }
+
+  return updated;
+}
+
+/**
+ * Clear all recent searches
+ */
+export async function clearRecentSearches(): Promise<void> {
+  try {
+    const key = getRecentSearchesKey();
+    if (key) {
+      await AsyncStorage.removeItem(key);
+    }
+  } catch (error) {
+    console.error('Error clearing recent searches:', error);
+  }
+}
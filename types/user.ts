@@ -1,3 +1,16 @@
+import { ReaderSettings } from '@/constants/readerTheme';
+
+/**
+ * How much of an interest the user wants in their feed
+ */
+export type InterestWeight = 'low' | 'medium' | 'high';
+
+export interface WeightedInterest {
+  // Lowercase interest name, as matched against content tags
+  name: string;
+  weight: InterestWeight;
+}
+
 /**
  * Extended user profile model with fields for personalization and insights
  */
@@ -6,7 +19,11 @@ export interface UserProfile {
   email: string;
   displayName?: string;
   name?: string;
+  // Interest names, strongest first. Kept alongside the weights for
+  // older clients and Gorse user labels.
   interests: string[];
+  // Weight per interest name; interests missing here count as medium
+  interestWeights?: Record<string, InterestWeight>;
   createdAt: Date;
   
   // New fields for insights and personalization
@@ -14,6 +31,9 @@ export interface UserProfile {
   lastInsightDismissed?: {
     [key: string]: Date;
   };
+  
+  // Reader typography and theme
+  readerSettings?: ReaderSettings;
 }
 
 /**
@@ -24,6 +44,7 @@ export function createDefaultUserProfile(uid: string, email: string): Partial<Us
     uid,
     email,
     interests: [],
+    interestWeights: {},
     articlesRead: 0,
     lastInsightDismissed: {},
     createdAt: new Date(),